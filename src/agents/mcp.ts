@@ -1,48 +1,197 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  isInitializeRequest,
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+} from "@modelcontextprotocol/sdk/types";
 import type {
   CallToolResult,
+  GetPromptResult,
   Implementation,
   JSONRPCMessage,
   MessageExtraInfo,
+  ProgressToken,
+  ReadResourceResult,
+  RequestId,
+  Resource,
+  ServerNotification,
+  ServerRequest,
   ToolAnnotations,
 } from "@modelcontextprotocol/sdk/types";
-import type { Transport } from "@modelcontextprotocol/sdk/shared/transport";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol";
+import type { Transport, TransportSendOptions } from "@modelcontextprotocol/sdk/shared/transport";
 import { z, type ZodObject, type ZodRawShape, type ZodTypeAny } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
+import type { Principal } from "../types";
+import { ToolPermissionError, assertToolCallAllowed, isToolVisible } from "../auth/policy";
 
 type AnyZodObject = ZodObject<ZodRawShape, "strip", ZodTypeAny>;
 
+export type ProgressUpdate = {
+  progress: number;
+  total?: number;
+  message?: string;
+};
+
+export type ProgressReporter = (update: ProgressUpdate) => Promise<void>;
+
+const noProgress: ProgressReporter = async () => {};
+
 type ToolHandler<Args extends AnyZodObject | null, Env, State> = (params: {
   args: Args extends AnyZodObject ? z.infer<Args> : Record<string, unknown>;
   env: Env;
   state: State;
   request?: Request;
   executionCtx: ExecutionContext;
+  principal?: Principal;
+  /** Emits `notifications/progress` when the caller supplied a progress token; a no-op otherwise. */
+  progress: ProgressReporter;
+  progressToken?: ProgressToken;
+  sessionId?: string;
+  /** Set when the tool runs as a durable task; aborted once the attempt times out. */
+  signal?: AbortSignal;
   extra?: unknown;
 }) => Promise<CallToolResult> | CallToolResult;
 
+/** Annotations that depend on who is calling, e.g. a read-only mode configured per principal. */
+type ToolAnnotationsResolver<Env> = (context: { env: Env; principal?: Principal }) => ToolAnnotations;
+
 type ToolRegistration<Env, State> = {
   name: string;
   description: string;
   schema: AnyZodObject | null;
-  annotations?: ToolAnnotations;
+  annotations?: ToolAnnotations | ToolAnnotationsResolver<Env>;
   handler: ToolHandler<AnyZodObject | null, Env, State>;
   jsonSchema?: Record<string, unknown>;
 };
 
+type ResourceHandler<Env, State> = (params: {
+  uri: URL;
+  variables: Record<string, string>;
+  env: Env;
+  state: State;
+  principal?: Principal;
+}) => Promise<ReadResourceResult> | ReadResourceResult;
+
+type ResourceListHandler<Env, State> = (params: {
+  env: Env;
+  state: State;
+  principal?: Principal;
+}) => Promise<Resource[]> | Resource[];
+
+type ResourceRegistration<Env, State> = {
+  name: string;
+  uri?: string;
+  uriTemplate?: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  tool?: string;
+  list?: ResourceListHandler<Env, State>;
+  handler: ResourceHandler<Env, State>;
+};
+
+export type PromptArgument = {
+  name: string;
+  description?: string;
+  required?: boolean;
+};
+
+type PromptHandler<Env, State> = (params: {
+  args: Record<string, string | undefined>;
+  env: Env;
+  state: State;
+  principal?: Principal;
+}) => Promise<GetPromptResult> | GetPromptResult;
+
+export type PromptRegistration<Env, State> = {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: PromptArgument[];
+  handler: PromptHandler<Env, State>;
+};
+
 type SessionCleanup = () => Promise<void> | void;
 
+type SessionTransportKind = "websocket" | "streamable-http" | "sse";
+
+export type SessionRecord = {
+  id: string;
+  transport: SessionTransportKind;
+  principal?: Principal;
+  createdAt: string;
+};
+
+type SessionOptions = {
+  id?: string;
+  store?: SessionStore;
+  principal?: Principal;
+};
+
+export interface SessionStore {
+  get(): Promise<SessionRecord | undefined>;
+  put(record: SessionRecord): Promise<void>;
+  delete(): Promise<void>;
+}
+
+type ServeOptions = {
+  binding?: string;
+};
+
+/**
+ * Records which sessions subscribed to which resource URIs so an update made in
+ * one session's Durable Object reaches subscribers hosted by the others.
+ */
+export interface SubscriptionRegistry {
+  add(uri: string, sessionId: string): Promise<void>;
+  remove(uri: string, sessionId: string): Promise<void>;
+  removeSession(sessionId: string): Promise<void>;
+  subscribers(match: string | ((uri: string) => boolean)): Promise<Array<{ uri: string; sessionId: string }>>;
+}
+
+export type SharedSubscriptions = {
+  /** Durable Object binding hosting the sessions, used to deliver updates to them. */
+  binding: string;
+  registry: SubscriptionRegistry;
+};
+
+const SESSION_ID_HEADER = "x-mcp-session-id";
+const SESSION_TRANSPORT_HEADER = "x-mcp-transport";
+const SESSION_ENDPOINT_HEADER = "x-mcp-endpoint";
+const SESSION_PRINCIPAL_HEADER = "x-mcp-principal";
+const SESSION_NOTIFY_HEADER = "x-mcp-notify";
+
+const samePrincipal = (a?: Principal, b?: Principal): boolean => (a?.id ?? null) === (b?.id ?? null);
+
 interface WebSocketSession {
   close: SessionCleanup;
 }
 
 interface SseSession<Env> {
   id: string;
+  principal?: Principal;
   close: SessionCleanup;
   send: (chunk: string) => void;
   transport: WorkerSseTransport<Env>;
 }
 
+interface StreamableHttpSession {
+  id: string;
+  principal?: Principal;
+  close: SessionCleanup;
+  transport: WorkerStreamableHttpTransport;
+}
+
+type PendingHttpStream = {
+  requestIds: Set<RequestId>;
+  write: (message: JSONRPCMessage) => void;
+  finish: () => void;
+};
+
 class WorkerWebSocketTransport implements Transport {
   public onclose?: () => void;
   public onerror?: (error: Error) => void;
@@ -52,7 +201,7 @@ class WorkerWebSocketTransport implements Transport {
   ) => void;
   private started = false;
 
-  constructor(private readonly socket: WebSocket) {}
+  constructor(private readonly socket: WebSocket, public readonly sessionId?: string) {}
 
   async start(): Promise<void> {
     if (this.started) {
@@ -137,6 +286,231 @@ class WorkerSseTransport<Env> implements Transport {
   }
 }
 
+class WorkerStreamableHttpTransport implements Transport {
+  public onclose?: () => void;
+  public onerror?: (error: Error) => void;
+  public onmessage?: (
+    message: JSONRPCMessage,
+    extra?: MessageExtraInfo,
+  ) => void;
+  private started = false;
+  private closed = false;
+  private standalone?: { send: (chunk: string) => void; close: () => void };
+  private readonly streams = new Map<RequestId, PendingHttpStream>();
+  public sessionId?: string;
+
+  constructor(session: string) {
+    this.sessionId = session;
+  }
+
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+  }
+
+  async handleRequest(request: Request): Promise<Response> {
+    switch (request.method) {
+      case "POST":
+        return this.handlePost(request);
+      case "GET":
+        return this.handleGet(request);
+      case "DELETE":
+        await this.close();
+        return new Response(null, { status: 204, headers: this.sessionHeaders() });
+      default:
+        return new Response("Unsupported method", {
+          status: 405,
+          headers: { allow: "GET, POST, DELETE" },
+        });
+    }
+  }
+
+  private async handlePost(request: Request): Promise<Response> {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return this.errorResponse(400, -32700, `Parse error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const messages = (Array.isArray(body) ? body : [body]) as JSONRPCMessage[];
+    const requestHeaders: Record<string, string> = {};
+    request.headers.forEach((value, key) => {
+      requestHeaders[key] = value;
+    });
+    const extra: MessageExtraInfo = { requestInfo: { headers: requestHeaders } };
+    const requestIds = messages.filter(isJSONRPCRequest).map(message => message.id);
+
+    if (!requestIds.length) {
+      for (const message of messages) {
+        this.receive(message, extra);
+      }
+      return new Response(null, { status: 202, headers: this.sessionHeaders() });
+    }
+
+    const accept = request.headers.get("accept") ?? "";
+    if (accept.includes("text/event-stream")) {
+      let controller: ReadableStreamDefaultController<Uint8Array>;
+      const stream = new ReadableStream<Uint8Array>({
+        start(ctrl) {
+          controller = ctrl;
+        },
+        cancel: () => {
+          requestIds.forEach(id => this.streams.delete(id));
+        },
+      });
+      this.openStream(requestIds, {
+        write: message => controller.enqueue(encodeChunk(`event: message\ndata: ${JSON.stringify(message)}\n\n`)),
+        finish: () => {
+          try {
+            controller.close();
+          } catch (error) {
+            console.warn("Streamable HTTP stream already closed", error);
+          }
+        },
+      });
+      for (const message of messages) {
+        this.receive(message, extra);
+      }
+
+      const headers = this.sessionHeaders();
+      headers.set("content-type", "text/event-stream; charset=utf-8");
+      headers.set("cache-control", "no-cache, no-transform");
+      return new Response(stream, { status: 200, headers });
+    }
+
+    return new Promise<Response>(resolve => {
+      const responses: JSONRPCMessage[] = [];
+      this.openStream(requestIds, {
+        write: message => {
+          if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+            responses.push(message);
+          }
+        },
+        finish: () => {
+          const headers = this.sessionHeaders();
+          headers.set("content-type", "application/json");
+          resolve(new Response(JSON.stringify(Array.isArray(body) ? responses : responses[0]), { status: 200, headers }));
+        },
+      });
+      for (const message of messages) {
+        this.receive(message, extra);
+      }
+    });
+  }
+
+  private handleGet(request: Request): Response {
+    const accept = request.headers.get("accept") ?? "";
+    if (!accept.includes("text/event-stream")) {
+      return new Response("Client must accept text/event-stream", { status: 406 });
+    }
+    if (this.standalone) {
+      return new Response("Only one SSE stream is allowed per session", { status: 409 });
+    }
+
+    let controller: ReadableStreamDefaultController<Uint8Array>;
+    let heartbeat: ReturnType<typeof setInterval> | undefined;
+    const stream = new ReadableStream<Uint8Array>({
+      start(ctrl) {
+        controller = ctrl;
+      },
+      cancel: () => {
+        clearInterval(heartbeat);
+        this.standalone = undefined;
+      },
+    });
+    this.standalone = {
+      send: chunk => controller.enqueue(encodeChunk(chunk)),
+      close: () => {
+        clearInterval(heartbeat);
+        try {
+          controller.close();
+        } catch (error) {
+          console.warn("Streamable HTTP stream already closed", error);
+        }
+      },
+    };
+    heartbeat = setInterval(() => {
+      this.standalone?.send(`: heartbeat ${new Date().toISOString()}\n\n`);
+    }, 15000);
+
+    const headers = this.sessionHeaders();
+    headers.set("content-type", "text/event-stream; charset=utf-8");
+    headers.set("cache-control", "no-cache, no-transform");
+    return new Response(stream, { status: 200, headers });
+  }
+
+  private openStream(requestIds: RequestId[], stream: Omit<PendingHttpStream, "requestIds">): void {
+    const pending: PendingHttpStream = { ...stream, requestIds: new Set(requestIds) };
+    for (const id of requestIds) {
+      this.streams.set(id, pending);
+    }
+  }
+
+  private receive(message: JSONRPCMessage, extra: MessageExtraInfo): void {
+    try {
+      this.onmessage?.(message, extra);
+    } catch (error) {
+      this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    const isResponse = isJSONRPCResponse(message) || isJSONRPCError(message);
+    const requestId = isResponse ? message.id : options?.relatedRequestId;
+
+    if (typeof requestId === "undefined") {
+      this.standalone?.send(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+      return;
+    }
+
+    const stream = this.streams.get(requestId);
+    if (!stream) {
+      this.onerror?.(new Error(`No open stream for request ${String(requestId)}`));
+      return;
+    }
+
+    stream.write(message);
+    if (isResponse) {
+      this.streams.delete(requestId);
+      stream.requestIds.delete(requestId);
+      if (!stream.requestIds.size) {
+        stream.finish();
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.standalone?.close();
+    this.standalone = undefined;
+    for (const stream of new Set(this.streams.values())) {
+      stream.finish();
+    }
+    this.streams.clear();
+    this.onclose?.();
+  }
+
+  private sessionHeaders(): Headers {
+    const headers = new Headers({ "access-control-expose-headers": "mcp-session-id" });
+    if (this.sessionId) {
+      headers.set("mcp-session-id", this.sessionId);
+    }
+    return headers;
+  }
+
+  private errorResponse(status: number, code: number, message: string): Response {
+    const headers = this.sessionHeaders();
+    headers.set("content-type", "application/json");
+    return new Response(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }), { status, headers });
+  }
+}
+
 function encodeChunk(chunk: string): Uint8Array {
   return new TextEncoder().encode(chunk);
 }
@@ -148,8 +522,13 @@ export abstract class McpAgent<Env, State extends Record<string, unknown> | unde
 
   private initialized = false;
   private readonly tools = new Map<string, ToolRegistration<Env, State>>();
+  private readonly resources = new Map<string, ResourceRegistration<Env, State>>();
+  private readonly resourceSubscriptions = new Map<McpServer, Set<string>>();
+  private readonly prompts = new Map<string, PromptRegistration<Env, State>>();
   private readonly wsSessions = new Set<WebSocketSession>();
   private readonly sseSessions = new Map<string, SseSession<Env>>();
+  private readonly httpSessions = new Map<string, StreamableHttpSession>();
+  private readonly sessionServers = new Map<string, McpServer>();
 
   constructor(private readonly info: Implementation, initialState: State) {
     this.state = initialState;
@@ -167,7 +546,7 @@ export abstract class McpAgent<Env, State extends Record<string, unknown> | unde
     name: string;
     description: string;
     schema?: Args | null;
-    annotations?: ToolAnnotations;
+    annotations?: ToolAnnotations | ToolAnnotationsResolver<Env>;
     jsonSchemaOverride?: Record<string, unknown>;
     handler: ToolHandler<Args extends AnyZodObject ? Args : null, Env, State>;
   }): void {
@@ -186,6 +565,124 @@ export abstract class McpAgent<Env, State extends Record<string, unknown> | unde
     });
   }
 
+  protected registerResource(definition: {
+    name: string;
+    uri: string;
+    title?: string;
+    description?: string;
+    mimeType?: string;
+    tool?: string;
+    handler: ResourceHandler<Env, State>;
+  }): void {
+    if (this.resources.has(definition.name)) {
+      throw new Error(`Resource ${definition.name} already registered`);
+    }
+    this.resources.set(definition.name, definition);
+  }
+
+  protected registerResourceTemplate(definition: {
+    name: string;
+    uriTemplate: string;
+    title?: string;
+    description?: string;
+    mimeType?: string;
+    tool?: string;
+    list?: ResourceListHandler<Env, State>;
+    handler: ResourceHandler<Env, State>;
+  }): void {
+    if (this.resources.has(definition.name)) {
+      throw new Error(`Resource ${definition.name} already registered`);
+    }
+    this.resources.set(definition.name, definition);
+  }
+
+  protected registerPrompt(definition: PromptRegistration<Env, State>): void {
+    if (this.prompts.has(definition.name)) {
+      throw new Error(`Prompt ${definition.name} already registered`);
+    }
+    this.prompts.set(definition.name, definition);
+  }
+
+  protected loadPrompts(_env: Env): Promise<PromptRegistration<Env, State>[]> | PromptRegistration<Env, State>[] {
+    return [];
+  }
+
+  /** Override when sessions live in separate Durable Objects so subscriptions are shared between them. */
+  protected sharedSubscriptions(_env: Env): SharedSubscriptions | null {
+    return null;
+  }
+
+  assertToolAllowed(principal: Principal | undefined, tool: string, args: Record<string, unknown>): void {
+    if (!isToolVisible(principal?.policy, tool)) {
+      throw new ToolPermissionError(tool, "not allowed by policy");
+    }
+    assertToolCallAllowed(principal?.policy, tool, args);
+  }
+
+  protected isToolCallAllowed(principal: Principal | undefined, tool: string, args: Record<string, unknown>): boolean {
+    try {
+      assertToolCallAllowed(principal?.policy, tool, args);
+      return isToolVisible(principal?.policy, tool);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Notifies subscribers of matching resources: sessions connected to this
+   * isolate directly, and sessions hosted elsewhere through the shared registry.
+   */
+  protected async notifyResourceUpdated(match: string | ((uri: string) => boolean)): Promise<void> {
+    const matches = typeof match === "string" ? (uri: string) => uri === match : match;
+    const notifications = [...this.resourceSubscriptions].flatMap(([server, uris]) =>
+      [...uris].filter(matches).map(uri =>
+        server.server.sendResourceUpdated({ uri }).catch(error => {
+          console.warn(`Failed to notify resource update for ${uri}`, error);
+        }),
+      ),
+    );
+    await Promise.all([...notifications, this.notifySharedSubscribers(match)]);
+  }
+
+  private async notifySharedSubscribers(match: string | ((uri: string) => boolean)): Promise<void> {
+    const shared = this.env ? this.sharedSubscriptions(this.env) : null;
+    if (!shared) {
+      return;
+    }
+    let subscribers: Array<{ uri: string; sessionId: string }>;
+    try {
+      subscribers = await shared.registry.subscribers(match);
+    } catch (error) {
+      console.warn("Failed to load shared resource subscriptions", error);
+      return;
+    }
+    const remote = subscribers.filter(({ sessionId }) => !this.sessionServers.has(sessionId));
+    await Promise.all(
+      remote.map(async ({ uri, sessionId }) => {
+        try {
+          const delivered = await McpAgent.notifySession(this.env, shared.binding, sessionId, {
+            method: "notifications/resources/updated",
+            params: { uri },
+          });
+          if (!delivered) {
+            await shared.registry.removeSession(sessionId);
+          }
+        } catch (error) {
+          console.warn(`Failed to notify session ${sessionId} about ${uri}`, error);
+        }
+      }),
+    );
+  }
+
+  private sessionIdOf(server: McpServer): string | undefined {
+    for (const [id, candidate] of this.sessionServers) {
+      if (candidate === server) {
+        return id;
+      }
+    }
+    return undefined;
+  }
+
   private async ensureInitialized(env: Env, ctx: ExecutionContext): Promise<void> {
     if (!this.initialized) {
       this.env = env;
@@ -198,21 +695,31 @@ export abstract class McpAgent<Env, State extends Record<string, unknown> | unde
     }
   }
 
-  private createServer(env: Env, ctx: ExecutionContext): McpServer {
+  private async createServer(env: Env, ctx: ExecutionContext, principal?: Principal): Promise<McpServer> {
     const server = new McpServer(this.info);
 
     for (const tool of this.tools.values()) {
+      if (!isToolVisible(principal?.policy, tool.name)) {
+        continue;
+      }
+
       const toolCallback = async (
         args: Record<string, unknown>,
-        extra: unknown,
+        extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
       ) => {
         const parsedArgs = tool.schema ? (await tool.schema.parseAsync(args)) : (args ?? {});
+        assertToolCallAllowed(principal?.policy, tool.name, parsedArgs);
+        const progressToken = extra._meta?.progressToken;
         return tool.handler({
           args: parsedArgs,
           env,
           state: this.state,
           request: (extra as { requestInfo?: { request?: Request } } | undefined)?.requestInfo?.request,
           executionCtx: ctx,
+          principal,
+          progress: progressToken === undefined ? noProgress : McpAgent.progressReporter(extra, progressToken),
+          progressToken,
+          sessionId: extra.sessionId,
           extra,
         });
       };
@@ -221,24 +728,148 @@ export abstract class McpAgent<Env, State extends Record<string, unknown> | unde
         server.registerTool(tool.name, {
           description: tool.description,
           inputSchema: tool.schema.shape as ZodRawShape,
-          annotations: tool.annotations,
+          annotations: this.toolAnnotations(tool, env, principal),
         }, toolCallback);
       } else {
         server.registerTool(tool.name, {
           description: tool.description,
-          annotations: tool.annotations,
+          annotations: this.toolAnnotations(tool, env, principal),
         }, toolCallback);
       }
     }
 
+    this.registerServerResources(server, env, principal);
+    await this.registerServerPrompts(server, env, principal);
     return server;
   }
 
-  async listTools(): Promise<
+  private toolAnnotations(
+    tool: ToolRegistration<Env, State>,
+    env: Env,
+    principal?: Principal,
+  ): ToolAnnotations | undefined {
+    return typeof tool.annotations === "function" ? tool.annotations({ env, principal }) : tool.annotations;
+  }
+
+  private async registerServerPrompts(server: McpServer, env: Env, principal?: Principal): Promise<void> {
+    let dynamic: PromptRegistration<Env, State>[] = [];
+    try {
+      dynamic = await this.loadPrompts(env);
+    } catch (error) {
+      console.error("Failed to load prompts", error);
+    }
+
+    const prompts = new Map(this.prompts);
+    for (const prompt of dynamic) {
+      if (prompts.has(prompt.name)) {
+        console.warn(`Prompt ${prompt.name} is already registered in code; ignoring stored definition`);
+        continue;
+      }
+      prompts.set(prompt.name, prompt);
+    }
+
+    for (const prompt of prompts.values()) {
+      const config = { title: prompt.title, description: prompt.description };
+      if (!prompt.arguments?.length) {
+        server.registerPrompt(prompt.name, config, () =>
+          prompt.handler({ args: {}, env, state: this.state, principal }),
+        );
+        continue;
+      }
+
+      const argsSchema = Object.fromEntries(
+        prompt.arguments.map(argument => {
+          const schema = argument.description ? z.string().describe(argument.description) : z.string();
+          return [argument.name, argument.required ? schema : schema.optional()];
+        }),
+      );
+      server.registerPrompt(prompt.name, { ...config, argsSchema }, args =>
+        prompt.handler({ args: args as Record<string, string | undefined>, env, state: this.state, principal }),
+      );
+    }
+  }
+
+  private registerServerResources(server: McpServer, env: Env, principal?: Principal): void {
+    let registered = false;
+
+    for (const resource of this.resources.values()) {
+      if (resource.tool && !isToolVisible(principal?.policy, resource.tool)) {
+        continue;
+      }
+      registered = true;
+
+      const metadata = {
+        title: resource.title,
+        description: resource.description,
+        mimeType: resource.mimeType,
+      };
+
+      if (resource.uri) {
+        server.registerResource(resource.name, resource.uri, metadata, uri =>
+          resource.handler({ uri, variables: {}, env, state: this.state, principal }),
+        );
+        continue;
+      }
+
+      const list = resource.list;
+      const template = new ResourceTemplate(resource.uriTemplate ?? "", {
+        list: list
+          ? async () => ({ resources: await list({ env, state: this.state, principal }) })
+          : undefined,
+      });
+      server.registerResource(resource.name, template, metadata, (uri, variables) =>
+        resource.handler({
+          uri,
+          variables: Object.fromEntries(
+            Object.entries(variables).map(([key, value]) => [
+              key,
+              decodeURIComponent(Array.isArray(value) ? value[0] ?? "" : value),
+            ]),
+          ),
+          env,
+          state: this.state,
+          principal,
+        }),
+      );
+    }
+
+    if (!registered) {
+      return;
+    }
+
+    const subscriptions = new Set<string>();
+    this.resourceSubscriptions.set(server, subscriptions);
+    server.server.registerCapabilities({ resources: { subscribe: true } });
+    const registry = this.sharedSubscriptions(env)?.registry;
+    server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+      subscriptions.add(request.params.uri);
+      const sessionId = this.sessionIdOf(server);
+      if (registry && sessionId) {
+        await registry.add(request.params.uri, sessionId);
+      }
+      return {};
+    });
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+      subscriptions.delete(request.params.uri);
+      const sessionId = this.sessionIdOf(server);
+      if (registry && sessionId) {
+        await registry.remove(request.params.uri, sessionId);
+      }
+      return {};
+    });
+    server.server.onclose = () => {
+      this.resourceSubscriptions.delete(server);
+    };
+  }
+
+  async listTools(principal?: Principal): Promise<
     Array<{ name: string; description: string; schema: Record<string, unknown>; annotations?: ToolAnnotations }>
   > {
     const tools: Array<{ name: string; description: string; schema: Record<string, unknown>; annotations?: ToolAnnotations }> = [];
     for (const tool of this.tools.values()) {
+      if (!isToolVisible(principal?.policy, tool.name)) {
+        continue;
+      }
       const schema =
         tool.jsonSchema ??
         (tool.schema
@@ -247,7 +878,12 @@ export abstract class McpAgent<Env, State extends Record<string, unknown> | unde
               $refStrategy: "none",
             }) as Record<string, unknown>)
           : { type: "object", additionalProperties: true });
-      tools.push({ name: tool.name, description: tool.description, schema, annotations: tool.annotations });
+      tools.push({
+        name: tool.name,
+        description: tool.description,
+        schema,
+        annotations: this.toolAnnotations(tool, this.env, principal),
+      });
     }
     return tools;
   }
@@ -258,17 +894,91 @@ export abstract class McpAgent<Env, State extends Record<string, unknown> | unde
     request: Request | undefined,
     env: Env,
     ctx: ExecutionContext,
+    principal?: Principal,
+    progress: ProgressReporter = noProgress,
+    signal?: AbortSignal,
   ): Promise<CallToolResult> {
     await this.ensureInitialized(env, ctx);
     const tool = this.tools.get(name);
-    if (!tool) {
+    if (!tool || !isToolVisible(principal?.policy, name)) {
       throw new Error(`Tool ${name} not found`);
     }
     const parsedArgs = tool.schema ? await tool.schema.parseAsync(args ?? {}) : args ?? {};
-    return tool.handler({ args: parsedArgs, env: this.env, state: this.state, request, executionCtx: this.executionCtx });
+    assertToolCallAllowed(principal?.policy, name, parsedArgs);
+    return tool.handler({
+      args: parsedArgs,
+      env: this.env,
+      state: this.state,
+      request,
+      executionCtx: this.executionCtx,
+      principal,
+      progress,
+      signal,
+    });
+  }
+
+  /**
+   * Sends a server notification to a session connected to this isolate. Resource
+   * updates are only delivered when the session subscribed to the URI, unless the
+   * sender tracks the subscription itself (e.g. a session subscribed to a task).
+   */
+  async deliverSessionNotification(
+    sessionId: string,
+    notification: ServerNotification,
+    subscribed = false,
+  ): Promise<boolean> {
+    const server = this.sessionServers.get(sessionId);
+    if (!server) {
+      return false;
+    }
+    if (notification.method === "notifications/resources/updated" && !subscribed) {
+      if (!this.resourceSubscriptions.get(server)?.has(notification.params.uri)) {
+        return true;
+      }
+    }
+    await server.server.notification(notification);
+    return true;
   }
 
-  private async handleWebSocketRequest(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+  private trackSession(id: string, server: McpServer): void {
+    this.sessionServers.set(id, server);
+    const onclose = server.server.onclose;
+    server.server.onclose = () => {
+      const subscribed = Boolean(this.resourceSubscriptions.get(server)?.size);
+      const registry = subscribed ? this.sharedSubscriptions(this.env)?.registry : undefined;
+      registry?.removeSession(id).catch(error => {
+        console.warn(`Failed to remove resource subscriptions for session ${id}`, error);
+      });
+      onclose?.();
+      if (this.sessionServers.get(id) === server) {
+        this.sessionServers.delete(id);
+      }
+    };
+  }
+
+  private static progressReporter(
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+    progressToken: ProgressToken,
+  ): ProgressReporter {
+    return async update => {
+      try {
+        await extra.sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, ...update },
+        });
+      } catch (error) {
+        console.warn("Failed to send progress notification", error);
+      }
+    };
+  }
+
+  private async handleWebSocketRequest(
+    request: Request,
+    env: Env,
+    ctx: ExecutionContext,
+    principal?: Principal,
+    id: string = crypto.randomUUID(),
+  ): Promise<Response> {
     if (request.headers.get("upgrade")?.toLowerCase() !== "websocket") {
       return new Response("Expected WebSocket upgrade", { status: 426 });
     }
@@ -279,9 +989,10 @@ export abstract class McpAgent<Env, State extends Record<string, unknown> | unde
     const [client, serverSocket] = Object.values(pair) as [WebSocket, WebSocket];
     serverSocket.accept();
 
-    const transport = new WorkerWebSocketTransport(serverSocket);
-    const server = this.createServer(env, ctx);
+    const transport = new WorkerWebSocketTransport(serverSocket, id);
+    const server = await this.createServer(env, ctx, principal);
     await server.connect(transport);
+    this.trackSession(id, server);
 
     const session: WebSocketSession = {
       close: async () => {
@@ -300,17 +1011,133 @@ export abstract class McpAgent<Env, State extends Record<string, unknown> | unde
     return new Response(null, { status: 101, webSocket: client });
   }
 
+  private async openStreamableHttpSession(
+    id: string,
+    env: Env,
+    ctx: ExecutionContext,
+    principal?: Principal,
+  ): Promise<StreamableHttpSession> {
+    await this.ensureInitialized(env, ctx);
+    const transport = new WorkerStreamableHttpTransport(id);
+    const server = await this.createServer(env, ctx, principal);
+    await server.connect(transport);
+    this.trackSession(id, server);
+
+    const session: StreamableHttpSession = {
+      id,
+      principal,
+      transport,
+      close: async () => {
+        this.httpSessions.delete(id);
+        await transport.close();
+        await server.close();
+      },
+    };
+    this.httpSessions.set(id, session);
+    return session;
+  }
+
+  private async handleStreamableHttpRequest(
+    request: Request,
+    env: Env,
+    ctx: ExecutionContext,
+    options: SessionOptions = {},
+  ): Promise<Response> {
+    const { store, principal } = options;
+    const sessionId = request.headers.get("mcp-session-id");
+
+    if (!sessionId) {
+      if (request.method !== "POST") {
+        return new Response("Missing Mcp-Session-Id header", { status: 400 });
+      }
+      const body = await request.clone().json().catch(() => null);
+      const messages = Array.isArray(body) ? body : [body];
+      if (!messages.some(message => isInitializeRequest(message))) {
+        return new Response("Missing Mcp-Session-Id header", { status: 400 });
+      }
+
+      const session = await this.openStreamableHttpSession(options.id ?? crypto.randomUUID(), env, ctx, principal);
+      await store?.put({
+        id: session.id,
+        transport: "streamable-http",
+        principal,
+        createdAt: new Date().toISOString(),
+      });
+      return session.transport.handleRequest(request);
+    }
+
+    let session = this.httpSessions.get(sessionId);
+    if (!session && store) {
+      const record = await store.get();
+      if (record?.id === sessionId) {
+        session = await this.openStreamableHttpSession(sessionId, env, ctx, record.principal);
+      }
+    }
+    if (!session) {
+      return new Response("Session not found", { status: 404 });
+    }
+    if (!samePrincipal(session.principal, principal)) {
+      return new Response("Session belongs to another principal", { status: 403 });
+    }
+
+    await this.ensureInitialized(env, ctx);
+    if (request.method === "DELETE") {
+      await session.close();
+      await store?.delete();
+      return new Response(null, { status: 204 });
+    }
+    return session.transport.handleRequest(request);
+  }
+
+  async handleSessionRequest(request: Request, env: Env, ctx: ExecutionContext, store: SessionStore): Promise<Response> {
+    const sessionId = request.headers.get(SESSION_ID_HEADER);
+    const endpoint = request.headers.get(SESSION_ENDPOINT_HEADER) ?? "";
+    if (!sessionId) {
+      return new Response("Missing session ID", { status: 400 });
+    }
+    const notify = request.headers.get(SESSION_NOTIFY_HEADER);
+    if (notify) {
+      await this.ensureInitialized(env, ctx);
+      const delivered = await this.deliverSessionNotification(
+        sessionId,
+        (await request.json()) as ServerNotification,
+        notify === "subscribed",
+      );
+      return new Response(null, { status: delivered ? 204 : 410 });
+    }
+    const principalHeader = request.headers.get(SESSION_PRINCIPAL_HEADER);
+    const principal = principalHeader
+      ? (JSON.parse(decodeURIComponent(principalHeader)) as Principal)
+      : undefined;
+
+    switch (request.headers.get(SESSION_TRANSPORT_HEADER) as SessionTransportKind | null) {
+      case "websocket":
+        return this.handleWebSocketRequest(request, env, ctx, principal, sessionId);
+      case "sse":
+        return this.handleSseRequest(request, env, ctx, endpoint, { id: sessionId, principal });
+      case "streamable-http":
+        return this.handleStreamableHttpRequest(request, env, ctx, { id: sessionId, store, principal });
+      default:
+        return new Response("Unsupported transport", { status: 400 });
+    }
+  }
+
   async ready(env: Env, ctx: ExecutionContext): Promise<void> {
     await this.ensureInitialized(env, ctx);
   }
 
-  private async handleSseRequest(request: Request, env: Env, ctx: ExecutionContext, endpoint: string): Promise<Response> {
-    const url = new URL(request.url);
-    const sessionId = url.pathname.replace(endpoint, "").replace(/^\/+/, "");
+  private async handleSseRequest(
+    request: Request,
+    env: Env,
+    ctx: ExecutionContext,
+    endpoint: string,
+    options: SessionOptions = {},
+  ): Promise<Response> {
+    const sessionId = McpAgent.sseSessionId(request, endpoint);
 
     if (request.method === "GET" && (sessionId === "" || sessionId === undefined)) {
       await this.ensureInitialized(env, ctx);
-      const id = crypto.randomUUID();
+      const id = options.id ?? crypto.randomUUID();
       const agent = this;
       let controller: ReadableStreamDefaultController<Uint8Array>;
       const stream = new ReadableStream<Uint8Array>({
@@ -342,8 +1169,9 @@ export abstract class McpAgent<Env, State extends Record<string, unknown> | unde
         }
       };
       const transport = new WorkerSseTransport<Env>(id, sendChunk, closeStream);
-      const server = this.createServer(env, ctx);
+      const server = await this.createServer(env, ctx, options.principal);
       await server.connect(transport);
+      this.trackSession(id, server);
 
       const heartbeat = setInterval(() => {
         sendChunk(`: heartbeat ${new Date().toISOString()}\n\n`);
@@ -357,6 +1185,7 @@ export abstract class McpAgent<Env, State extends Record<string, unknown> | unde
 
       this.sseSessions.set(id, {
         id,
+        principal: options.principal,
         close: cleanup,
         send: sendChunk,
         transport,
@@ -381,6 +1210,9 @@ export abstract class McpAgent<Env, State extends Record<string, unknown> | unde
     if (!session) {
       return new Response("Session not found", { status: 404 });
     }
+    if (!samePrincipal(session.principal, options.principal)) {
+      return new Response("Session belongs to another principal", { status: 403 });
+    }
 
     if (request.method === "POST") {
       const body = await request.json();
@@ -406,11 +1238,27 @@ export abstract class McpAgent<Env, State extends Record<string, unknown> | unde
   static serve<Path extends string, Env, State extends Record<string, unknown> | undefined>(
     this: new () => McpAgent<Env, State>,
     endpoint: Path,
+    options: ServeOptions = {},
   ) {
     const agent = McpAgent.getOrCreateInstance(this);
     return {
-      fetch(request: Request, env: Env, ctx: ExecutionContext) {
-        return agent.handleWebSocketRequest(request, env, ctx);
+      fetch(request: Request, env: Env, ctx: ExecutionContext, principal?: Principal) {
+        const isWebSocket = request.headers.get("upgrade")?.toLowerCase() === "websocket";
+        if (options.binding) {
+          const sessionId = isWebSocket
+            ? crypto.randomUUID()
+            : request.headers.get("mcp-session-id") ?? crypto.randomUUID();
+          return McpAgent.forwardToSession(request, env, options.binding, {
+            id: sessionId,
+            transport: isWebSocket ? "websocket" : "streamable-http",
+            endpoint,
+            principal,
+          });
+        }
+        if (isWebSocket) {
+          return agent.handleWebSocketRequest(request, env, ctx, principal);
+        }
+        return agent.handleStreamableHttpRequest(request, env, ctx, { principal });
       },
     };
   }
@@ -418,15 +1266,87 @@ export abstract class McpAgent<Env, State extends Record<string, unknown> | unde
   static serveSSE<Path extends string, Env, State extends Record<string, unknown> | undefined>(
     this: new () => McpAgent<Env, State>,
     endpoint: Path,
+    options: ServeOptions = {},
   ) {
     const agent = McpAgent.getOrCreateInstance(this);
     return {
-      fetch(request: Request, env: Env, ctx: ExecutionContext) {
-        return agent.handleSseRequest(request, env, ctx, endpoint);
+      fetch(request: Request, env: Env, ctx: ExecutionContext, principal?: Principal) {
+        if (options.binding) {
+          const sessionId = McpAgent.sseSessionId(request, endpoint);
+          if (!sessionId && request.method !== "GET") {
+            return new Response("Missing session ID", { status: 400 });
+          }
+          return McpAgent.forwardToSession(request, env, options.binding, {
+            id: sessionId || crypto.randomUUID(),
+            transport: "sse",
+            endpoint,
+            principal,
+          });
+        }
+        return agent.handleSseRequest(request, env, ctx, endpoint, { principal });
       },
     };
   }
 
+  private static sseSessionId(request: Request, endpoint: string): string {
+    return new URL(request.url).pathname.replace(endpoint, "").replace(/^\/+/, "");
+  }
+
+  private static async forwardToSession<Env>(
+    request: Request,
+    env: Env,
+    binding: string,
+    session: { id: string; transport: SessionTransportKind; endpoint: string; principal?: Principal },
+  ): Promise<Response> {
+    const namespace = (env as unknown as Record<string, DurableObjectNamespace | undefined>)[binding];
+    if (!namespace) {
+      return new Response(`Durable Object binding ${binding} is not configured`, { status: 500 });
+    }
+
+    const headers = new Headers(request.headers);
+    headers.delete(SESSION_NOTIFY_HEADER);
+    headers.set(SESSION_ID_HEADER, session.id);
+    headers.set(SESSION_TRANSPORT_HEADER, session.transport);
+    headers.set(SESSION_ENDPOINT_HEADER, session.endpoint);
+    if (session.principal) {
+      headers.set(SESSION_PRINCIPAL_HEADER, encodeURIComponent(JSON.stringify(session.principal)));
+    } else {
+      headers.delete(SESSION_PRINCIPAL_HEADER);
+    }
+
+    const stub = namespace.get(namespace.idFromName(session.id));
+    return stub.fetch(new Request(request, { headers })) as unknown as Promise<Response>;
+  }
+
+  /**
+   * Delivers a notification to a session hosted by the session Durable Object
+   * binding. Resolves to false when the session is no longer connected. Pass
+   * `subscribed` when the caller already knows the session asked for the update.
+   */
+  static async notifySession<Env>(
+    env: Env,
+    binding: string,
+    sessionId: string,
+    notification: ServerNotification,
+    options: { subscribed?: boolean } = {},
+  ): Promise<boolean> {
+    const namespace = (env as unknown as Record<string, DurableObjectNamespace | undefined>)[binding];
+    if (!namespace) {
+      return false;
+    }
+    const stub = namespace.get(namespace.idFromName(sessionId));
+    const response = await stub.fetch("https://mcp-session/notify", {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        [SESSION_ID_HEADER]: sessionId,
+        [SESSION_NOTIFY_HEADER]: options.subscribed ? "subscribed" : "1",
+      },
+      body: JSON.stringify(notification),
+    });
+    return response.ok;
+  }
+
   private static readonly instances = new WeakMap<Function, McpAgent<any, any>>();
 
   protected static getOrCreateInstance<Env, State extends Record<string, unknown> | undefined>(
@@ -1,76 +1,85 @@
 import { z } from "zod";
-import type { CallToolResult } from "@modelcontextprotocol/sdk/types";
-import { McpAgent } from "./mcp";
+import type { CallToolResult, ReadResourceResult } from "@modelcontextprotocol/sdk/types";
+import { McpAgent, type PromptRegistration, type SharedSubscriptions } from "./mcp";
+import { listStoredPrompts, renderStoredPrompt } from "../prompts/store";
+import {
+  ATOMIC_KV_BASE,
+  LONG_TASK_BASE,
+  SESSION_BINDING,
+  atomicKvStub,
+  longTaskStub,
+  taskOwnerHeaders,
+  taskOwnerId,
+} from "../durable/helpers";
+import { d1SubscriptionRegistry } from "../durable/subscriptions";
+import { WORKFLOW_OPERATION } from "../durable/workflow";
+import { ToolPermissionError, assertKvKeysAllowed, isReservedKvKey } from "../auth/policy";
+import { base64ToBytes, bytesToBase64 } from "../encoding";
+import { assertSingleStatement, classifyStatement, d1ReadOnlyDefault, statementVerb } from "../d1/sql";
+import { introspectSchema, renderSchemaText } from "../d1/schema";
+import { MAX_BYTES, MAX_PAGE_SIZE, formatRows, queryPage } from "../d1/results";
+import { isMigrationWrite, migrationActionSchema, runMigrationAction } from "../d1/migrations";
+import {
+  extractLinks,
+  extractReadableText,
+  htmlToMarkdown,
+  htmlToText,
+  pageTitle,
+  selectHtml,
+  truncateText,
+} from "../browser/html";
+import { DEFAULT_BROWSER_ENDPOINT, browserEgressPolicy, renderPageFile, renderPageHtml } from "../browser/render";
+import { assertEgressAllowed, assertHeadersAllowed, egressFetch, egressPolicy } from "../egress/policy";
+import { embeddingProvider } from "../embeddings/provider";
+import { queryText, upsertDocuments } from "../embeddings/search";
+import { cancelCrawl, defaultPathPrefix, normalizeUrl, queueCrawlSlice, startCrawl } from "../crawl/crawler";
+import {
+  crawlPageCounts,
+  getCrawlContent,
+  getCrawlJob,
+  getCrawlPage,
+  listCrawlJobs,
+  listCrawlPages,
+  updateCrawlJob,
+} from "../crawl/store";
+import { isRequiredField, jsonSchemaFromField, propertySchema, remoteToolFieldSchema } from "../remote/schema";
+import { deleteIngestedUrl, ingestPreparedPage, isUnchanged, preparePage } from "../ingest/pipeline";
+import { listIngestedDocuments } from "../ingest/store";
+import {
+  VECTORIZE_LIMITS,
+  assertDimensions,
+  assertIds,
+  assertNamespace,
+  assertTopK,
+  assertVectors,
+  describeIndex,
+  existingIds,
+  vectorizeCall,
+} from "../vectorize/index-info";
 import type {
   Env,
+  Principal,
   RemoteToolConfig,
-  RemoteToolField,
+  TaskSubscriber,
 } from "../types";
 import type {
-  HeadersInit as CfHeadersInit,
-  RequestInit as CfRequestInit,
   Response as CfResponse,
+  VectorizeVectorMetadata,
   VectorizeVectorMetadataFilter,
 } from "@cloudflare/workers-types";
 
-const DEFAULT_BROWSER_ENDPOINT = "https://browser.render.cloudflare.com/render";
-
-const scalarField = (field: RemoteToolField): z.ZodTypeAny => {
-  switch (field.type) {
-    case "string":
-      return z.string();
-    case "number":
-      return z.number();
-    case "boolean":
-      return z.boolean();
-    case "array":
-      return z.array(field.items ? scalarField(field.items) : z.any());
-    case "object":
-      return z.object(
-        Object.fromEntries(
-          Object.entries(field.properties ?? {}).map(([key, value]) => [
-            key,
-            value.optional ? scalarField(value).optional() : scalarField(value),
-          ]),
-        ),
-      );
-    default:
-      return z.any();
-  }
-};
+const RESOURCE_LIST_LIMIT = 100;
+const SAMPLE_ROW_LIMIT = 5;
+const KV_BULK_LIMIT = 100;
+const INGEST_INLINE_CHUNK_LIMIT = 40;
+const BROWSER_DEFAULT_MAX_CHARS = 50_000;
+const BROWSER_MAX_CHARS = 500_000;
+const BROWSER_MAX_BYTES = 5 * 1024 * 1024;
+const CRAWL_MAX_DEPTH = 10;
+const CRAWL_MAX_PAGES = 1000;
+const CRAWL_MIN_DELAY_MS = 250;
 
-const jsonSchemaFromField = (field: RemoteToolField): Record<string, unknown> => {
-  switch (field.type) {
-    case "string":
-      return { type: "string", description: field.description };
-    case "number":
-      return { type: "number", description: field.description };
-    case "boolean":
-      return { type: "boolean", description: field.description };
-    case "array":
-      return {
-        type: "array",
-        description: field.description,
-        items: field.items ? jsonSchemaFromField(field.items) : {},
-      };
-    case "object":
-      return {
-        type: "object",
-        description: field.description,
-        properties: Object.fromEntries(
-          Object.entries(field.properties ?? {}).map(([key, value]) => [
-            key,
-            jsonSchemaFromField(value),
-          ]),
-        ),
-        required: Object.entries(field.properties ?? {})
-          .filter(([, value]) => !value.optional)
-          .map(([key]) => key),
-      };
-    default:
-      return { description: field.description };
-  }
-};
+const quoteIdentifier = (name: string): string => `"${name.replace(/"/g, '""')}"`;
 
 type AgentState = {
   remoteTools: string[];
@@ -84,10 +93,93 @@ export class MyMCP extends McpAgent<Env, AgentState> {
   protected override async init(): Promise<void> {
     this.registerBrowserTool();
     this.registerD1Tool();
+    this.registerD1SchemaTool();
+    this.registerD1MigrateTool();
     this.registerKvTool();
+    this.registerAtomicKvTool();
     this.registerVectorizeTool();
+    this.registerIngestTool();
+    this.registerCrawlTool();
     this.registerDurableTool();
     await this.registerRemoteTools();
+    this.registerResources();
+    this.registerPrompts();
+  }
+
+  protected override async loadPrompts(env: Env): Promise<PromptRegistration<Env, AgentState>[]> {
+    const stored = await listStoredPrompts(env);
+    return stored.map(prompt => ({
+      name: prompt.name,
+      title: prompt.title,
+      description: prompt.description,
+      arguments: prompt.arguments,
+      handler: ({ args }) => renderStoredPrompt(prompt, args),
+    }));
+  }
+
+  protected override sharedSubscriptions(env: Env): SharedSubscriptions | null {
+    return env.MCP_SESSION ? { binding: SESSION_BINDING, registry: d1SubscriptionRegistry(env.DB) } : null;
+  }
+
+  private registerPrompts(): void {
+    this.registerPrompt({
+      name: "explore_table",
+      title: "Explore a D1 table",
+      description: "Inspect a D1 table and suggest useful read-only queries against it.",
+      arguments: [
+        { name: "table", description: "Name of the table to explore", required: true },
+        { name: "goal", description: "What you want to learn from the data" },
+      ],
+      handler: ({ args }) => ({
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "resource_link",
+              uri: `d1://tables/${encodeURIComponent(args.table ?? "")}`,
+              name: args.table ?? "",
+            },
+          },
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: [
+                `Review the schema and sample rows of the D1 table "${args.table}".`,
+                args.goal ? `My goal: ${args.goal}.` : "",
+                "Summarise what the table stores, then propose read-only SQL queries for d1_query that would help.",
+              ]
+                .filter(Boolean)
+                .join("\n"),
+            },
+          },
+        ],
+      }),
+    });
+
+    this.registerPrompt({
+      name: "summarize_page",
+      title: "Summarise a web page",
+      description: "Render a page with browser_render and summarise its contents.",
+      arguments: [
+        { name: "url", description: "URL of the page to summarise", required: true },
+        { name: "focus", description: "Topic to focus the summary on" },
+      ],
+      handler: ({ args }) => ({
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: [
+                `Use the browser_render tool to load ${args.url}.`,
+                `Summarise the page${args.focus ? ` with a focus on ${args.focus}` : ""} in a few short paragraphs and list any key links.`,
+              ].join("\n"),
+            },
+          },
+        ],
+      }),
+    });
   }
 
   private registerBrowserTool(): void {
@@ -95,6 +187,28 @@ export class MyMCP extends McpAgent<Env, AgentState> {
       url: z.string().url(),
       endpoint: z.string().url().optional(),
       method: z.enum(["GET", "POST"]).optional(),
+      output: z
+        .enum(["raw", "html", "markdown", "text", "links", "screenshot", "pdf"])
+        .optional()
+        .describe("raw (default) returns the endpoint response as-is; screenshot: true implies screenshot"),
+      selector: z
+        .string()
+        .optional()
+        .describe("html/markdown/text/links: only use elements matching this tag, #id and .class selector"),
+      maxChars: z
+        .number()
+        .int()
+        .min(1000)
+        .max(BROWSER_MAX_CHARS)
+        .optional()
+        .describe(`Cap on returned text (default ${BROWSER_DEFAULT_MAX_CHARS})`),
+      maxBytes: z
+        .number()
+        .int()
+        .min(1024)
+        .max(BROWSER_MAX_BYTES)
+        .optional()
+        .describe(`Cap on screenshot/pdf size (default ${BROWSER_MAX_BYTES})`),
       waitFor: z.number().int().min(0).max(120_000).optional(),
       screenshot: z.boolean().optional(),
       script: z.string().optional(),
@@ -104,10 +218,67 @@ export class MyMCP extends McpAgent<Env, AgentState> {
 
     this.registerTool({
       name: "browser_render",
-      description: "Render a web page using Cloudflare Browser Rendering and optionally run a Playwright script.",
+      description:
+        "Render a web page using Cloudflare Browser Rendering and optionally run a Playwright script. output selects cleaned markdown, plain text, links, selector-scoped HTML, a screenshot image or a PDF.",
       schema,
       handler: async ({ args, env }) => {
         const endpoint = args.endpoint ?? DEFAULT_BROWSER_ENDPOINT;
+        const output = args.output ?? (args.screenshot ? "screenshot" : "raw");
+        const maxChars = args.maxChars ?? BROWSER_DEFAULT_MAX_CHARS;
+        const renderOptions = { endpoint, waitFor: args.waitFor, script: args.script, headers: args.headers };
+
+        if (output === "screenshot" || output === "pdf") {
+          const file = await renderPageFile(env, args.url, output, renderOptions);
+          const maxBytes = args.maxBytes ?? BROWSER_MAX_BYTES;
+          if (file.bytes.byteLength > maxBytes) {
+            return this.wrapError(
+              `The ${output} is ${file.bytes.byteLength} bytes, over the ${maxBytes} byte limit.`,
+              endpoint,
+            );
+          }
+          const data = bytesToBase64(file.bytes);
+          return {
+            content: [
+              output === "screenshot"
+                ? { type: "image", data, mimeType: file.mimeType }
+                : { type: "resource", resource: { uri: args.url, mimeType: file.mimeType, blob: data } },
+            ],
+            metadata: { endpoint, url: args.url, output, bytes: file.bytes.byteLength },
+          };
+        }
+
+        if (output !== "raw") {
+          const page = await renderPageHtml(env, args.url, renderOptions);
+          const fragments = args.selector ? selectHtml(page.html, args.selector) : undefined;
+          if (fragments && !fragments.length) {
+            return this.wrapError(`Selector ${args.selector} matched no elements.`, endpoint);
+          }
+          const scoped = fragments?.join("\n");
+          let text: string;
+          switch (output) {
+            case "html":
+              text = scoped ?? page.html;
+              break;
+            case "markdown":
+              text = htmlToMarkdown(scoped ?? page.html, page.url, { fragment: Boolean(scoped) });
+              break;
+            case "text":
+              text = scoped ? htmlToText(scoped) : extractReadableText(page.html).text;
+              break;
+            case "links":
+              text = JSON.stringify(extractLinks(scoped ?? page.html, page.url), null, 2);
+              break;
+            default:
+              throw new Error(`Unsupported output: ${output}`);
+          }
+          return this.wrapBrowserText(text, maxChars, endpoint, {
+            url: page.url,
+            output,
+            title: pageTitle(page.html),
+            matches: fragments?.length,
+          });
+        }
+
         const method = (args.method ?? "POST").toUpperCase();
         const payload = {
           url: args.url,
@@ -117,16 +288,16 @@ export class MyMCP extends McpAgent<Env, AgentState> {
           metadata: args.metadata,
         };
 
-        const headers: CfHeadersInit = {
+        const policy = browserEgressPolicy(env, endpoint);
+        assertEgressAllowed(egressPolicy(env), args.url);
+        assertHeadersAllowed(args.headers);
+        const headers: Record<string, string> = {
           "content-type": "application/json",
           ...(args.headers ?? {}),
         };
+        const fetchOptions = { fetcher: env.BROWSER, timeoutMs: policy.timeoutMs + (args.waitFor ?? 0) };
 
-        const requestInit: CfRequestInit = {
-          method,
-          headers,
-        };
-
+        let response: Response;
         if (method === "GET") {
           const url = new URL(endpoint);
           Object.entries(payload).forEach(([key, value]) => {
@@ -135,19 +306,38 @@ export class MyMCP extends McpAgent<Env, AgentState> {
             }
             url.searchParams.set(key, typeof value === "string" ? value : JSON.stringify(value));
           });
-          const response = await env.BROWSER.fetch(url.toString(), requestInit);
-          const result = await this.parseResponse(response);
-          return this.wrapToolResult(result, endpoint);
+          response = await egressFetch(policy, url.toString(), { method, headers }, fetchOptions);
+        } else {
+          response = await egressFetch(policy, endpoint, { method, headers, body: JSON.stringify(payload) }, fetchOptions);
         }
-
-        requestInit.body = JSON.stringify(payload);
-        const response = await env.BROWSER.fetch(endpoint, requestInit);
         const result = await this.parseResponse(response);
-        return this.wrapToolResult(result, endpoint);
+        const text = typeof result === "string" ? result : JSON.stringify(result ?? null, null, 2);
+        return this.wrapBrowserText(text, maxChars, endpoint, { url: args.url, output });
       },
     });
   }
 
+  /** One text block cut at maxChars, plus a notice block when the cut happened. */
+  private wrapBrowserText(
+    text: string,
+    maxChars: number,
+    endpoint: string,
+    details: Record<string, unknown>,
+  ): CallToolResult {
+    const cut = truncateText(text, maxChars);
+    const content: CallToolResult["content"] = [{ type: "text", text: cut.text }];
+    if (cut.truncated) {
+      content.push({
+        type: "text",
+        text: `[Truncated to ${cut.text.length} of ${text.length} characters. Narrow the result with selector or raise maxChars.]`,
+      });
+    }
+    return {
+      content,
+      metadata: { endpoint, ...details, truncated: cut.truncated, totalChars: text.length },
+    };
+  }
+
   private registerD1Tool(): void {
     const statementSchema = z.object({
       sql: z.string(),
@@ -156,20 +346,52 @@ export class MyMCP extends McpAgent<Env, AgentState> {
     const schema = z.object({
       statement: statementSchema.optional(),
       statements: z.array(statementSchema).optional(),
-      readOnly: z.boolean().optional(),
+      readOnly: z
+        .boolean()
+        .optional()
+        .describe("Reject statements that modify the database. Cannot disable a read-only default."),
+      limit: z.number().int().min(1).max(MAX_PAGE_SIZE).optional().describe("Rows per page for read queries (default 100)"),
+      cursor: z.string().optional().describe("nextCursor from a previous page of the same query"),
+      maxBytes: z.number().int().min(1).max(MAX_BYTES).optional().describe("Cap on serialized rows per page"),
+      columns: z.array(z.string()).optional().describe("Only return these columns"),
+      format: z.enum(["json", "csv", "ndjson", "markdown"]).optional(),
     });
 
     this.registerTool({
       name: "d1_query",
-      description: "Execute SQL against the bound D1 database, supporting single or batched statements.",
+      description:
+        "Execute SQL against the bound D1 database, supporting single or batched statements. Each SQL string must hold exactly one statement. Single read queries are paginated: follow nextCursor for more rows, and pick columns and an output format (json, csv, ndjson, markdown) to keep results small.",
       schema,
-      handler: async ({ args, env }) => {
+      annotations: ({ env, principal }) =>
+        d1ReadOnlyDefault(env, principal)
+          ? { readOnlyHint: true, destructiveHint: false, openWorldHint: false }
+          : { readOnlyHint: false, destructiveHint: true, openWorldHint: false },
+      handler: async ({ args, env, principal }) => {
+        const statements = args.statements ?? (args.statement ? [args.statement] : []);
+        if (!statements.length) {
+          throw new Error("No SQL statement provided.");
+        }
+
+        const readOnly = args.readOnly === true || d1ReadOnlyDefault(env, principal);
+        statements.forEach((statement, index) => {
+          const sql = assertSingleStatement(statement.sql);
+          if (readOnly && classifyStatement(sql) === "write") {
+            throw new ToolPermissionError(
+              "d1_query",
+              `statement ${index + 1} (${statementVerb(sql) || "unknown"}) modifies the database in read-only mode`,
+            );
+          }
+        });
+
         if (args.statements) {
           const exec = args.statements.map(statement => {
             const prepared = env.DB.prepare(statement.sql);
             return statement.params ? prepared.bind(...statement.params) : prepared;
           });
           const rows = await env.DB.batch(exec);
+          if (!readOnly) {
+            await this.notifyResourceUpdated(uri => uri.startsWith("d1://tables/"));
+          }
           return this.wrapToolResult(rows, "d1");
         }
 
@@ -177,64 +399,253 @@ export class MyMCP extends McpAgent<Env, AgentState> {
           throw new Error("No SQL statement provided.");
         }
 
+        const sql = assertSingleStatement(args.statement.sql);
+        if (classifyStatement(sql) === "read") {
+          const page = await queryPage(env.DB, {
+            sql,
+            params: args.statement.params,
+            columns: args.columns,
+            limit: args.limit,
+            maxBytes: args.maxBytes,
+            cursor: args.cursor,
+          });
+          if (!args.format || args.format === "json") {
+            return this.wrapToolResult(page, "d1");
+          }
+          const { results, columns, ...pagination } = page;
+          return {
+            content: [
+              { type: "text", text: formatRows(results, columns, args.format) },
+              { type: "text", text: JSON.stringify({ rowCount: results.length, ...pagination }, null, 2) },
+            ],
+            metadata: { endpoint: "d1" },
+          };
+        }
+
         const stmt = env.DB.prepare(args.statement.sql);
         const query = args.statement.params ? stmt.bind(...args.statement.params) : stmt;
         const result = await query.all();
+        if (result.meta?.changes || result.meta?.changed_db) {
+          await this.notifyResourceUpdated(uri => uri.startsWith("d1://tables/"));
+        }
+        return this.wrapToolResult(result, "d1");
+      },
+    });
+  }
+
+  private registerD1SchemaTool(): void {
+    const schema = z.object({
+      table: z.string().optional().describe("Limit the result to a single table or view"),
+      format: z.enum(["json", "text", "both"]).optional(),
+      rowCounts: z.boolean().optional().describe("Include row-count estimates (default true)"),
+    });
+
+    this.registerTool({
+      name: "d1_schema",
+      description:
+        "Describe the bound D1 database: tables, views, columns, primary and foreign keys, indexes and row-count estimates. Use it before writing SQL for d1_query.",
+      schema,
+      annotations: { readOnlyHint: true, destructiveHint: false, openWorldHint: false },
+      handler: async ({ args, env }) => {
+        const result = await introspectSchema(env.DB, { table: args.table, rowCounts: args.rowCounts });
+        if (args.table && !result.tables.length) {
+          return this.wrapError(`Table ${args.table} not found.`, "d1");
+        }
+
+        switch (args.format ?? "both") {
+          case "json":
+            return this.wrapToolResult(result, "d1");
+          case "text":
+            return this.wrapToolResult(renderSchemaText(result), "d1");
+          default:
+            return {
+              content: [
+                { type: "text", text: renderSchemaText(result) },
+                { type: "text", text: JSON.stringify(result, null, 2) },
+              ],
+              metadata: { endpoint: "d1" },
+            };
+        }
+      },
+    });
+  }
+
+  private registerD1MigrateTool(): void {
+    this.registerTool({
+      name: "d1_migrate",
+      description:
+        "Manage versioned schema migrations for the bound D1 database. plan shows pending work, apply runs pending migrations atomically, status lists applied ones and rollback reverts them with their down SQL. Applied migrations must not be edited.",
+      schema: migrationActionSchema,
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
+      handler: async ({ args, env, principal }) => {
+        if (isMigrationWrite(args.action) && d1ReadOnlyDefault(env, principal)) {
+          throw new ToolPermissionError("d1_migrate", `${args.action} is not available in read-only mode`);
+        }
+        const result = await runMigrationAction(env.DB, args);
+        if (isMigrationWrite(args.action)) {
+          await this.notifyResourceUpdated(uri => uri.startsWith("d1://tables/"));
+        }
         return this.wrapToolResult(result, "d1");
       },
     });
   }
 
   private registerKvTool(): void {
+    const putOptions = {
+      metadata: z.record(z.any()).optional(),
+      expiration: z.number().int().positive().optional().describe("Absolute expiry in seconds since the epoch"),
+      expirationTtl: z.number().int().min(60).optional().describe("Expiry in seconds from now"),
+      encoding: z.enum(["utf8", "base64"]).optional().describe("base64 stores the decoded bytes"),
+    };
     const schema = z.object({
-      action: z.enum(["get", "put", "delete", "list"]),
+      action: z.enum(["get", "put", "delete", "list", "get_many", "put_many", "delete_many"]),
       key: z.string().optional(),
-      value: z.string().optional(),
-      metadata: z.record(z.any()).optional(),
-      expirationTtl: z.number().int().positive().optional(),
+      keys: z.array(z.string()).min(1).max(KV_BULK_LIMIT).optional(),
+      value: z.any().optional().describe("Strings are stored as-is; other values are stored as JSON"),
+      ...putOptions,
+      entries: z
+        .array(z.object({ key: z.string(), value: z.any(), ...putOptions }))
+        .min(1)
+        .max(KV_BULK_LIMIT)
+        .optional(),
       prefix: z.string().optional(),
+      cursor: z.string().optional().describe("Cursor returned by a previous list call"),
       limit: z.number().int().min(1).max(1000).optional(),
-      type: z.enum(["text", "json", "arrayBuffer"]).optional(),
+      type: z.enum(["text", "json", "arrayBuffer"]).optional().describe("arrayBuffer values are returned as base64"),
     });
 
+    type PutEntry = { key: string; value?: unknown } & {
+      metadata?: Record<string, unknown>;
+      expiration?: number;
+      expirationTtl?: number;
+      encoding?: "utf8" | "base64";
+    };
+
+    const readValue = async (env: Env, key: string, type: "text" | "json" | "arrayBuffer") => {
+      if (type === "arrayBuffer") {
+        const { value, metadata } = await env.KV.getWithMetadata(key, "arrayBuffer");
+        return {
+          key,
+          value: value === null ? null : bytesToBase64(new Uint8Array(value)),
+          encoding: "base64",
+          metadata,
+        };
+      }
+      const { value, metadata } =
+        type === "text" ? await env.KV.getWithMetadata(key, "text") : await env.KV.getWithMetadata(key, "json");
+      return { key, value, metadata };
+    };
+
+    const writeValue = async (env: Env, entry: PutEntry): Promise<void> => {
+      if (typeof entry.value === "undefined") {
+        throw new Error(`Value is required for ${entry.key}.`);
+      }
+      if (entry.expiration && entry.expirationTtl) {
+        throw new Error(`Use either expiration or expirationTtl for ${entry.key}, not both.`);
+      }
+      let value: string | Uint8Array;
+      if (entry.encoding === "base64") {
+        if (typeof entry.value !== "string") throw new Error(`base64 value for ${entry.key} must be a string.`);
+        value = base64ToBytes(entry.value);
+      } else {
+        value = typeof entry.value === "string" ? entry.value : JSON.stringify(entry.value);
+      }
+      await env.KV.put(entry.key, value, {
+        expiration: entry.expiration,
+        expirationTtl: entry.expirationTtl,
+        metadata: entry.metadata,
+      });
+    };
+
     this.registerTool({
       name: "kv",
-      description: "Perform CRUD operations against the bound KV namespace.",
+      description:
+        "Perform CRUD operations against the bound KV namespace. get returns the value with its metadata, list pages with cursor, and get_many/put_many/delete_many handle up to 100 keys per call.",
       schema,
-      handler: async ({ args, env }) => {
+      handler: async ({ args, env, principal }) => {
+        const assertKeysAllowed = (action: "get" | "put" | "delete", keys: string[]): void => {
+          assertKvKeysAllowed("kv", keys);
+          const denied = keys.filter(key => !this.isToolCallAllowed(principal, "kv", { action, key }));
+          if (denied.length) {
+            throw new ToolPermissionError("kv", `${action} is not allowed for ${denied.join(", ")}`);
+          }
+        };
+        const notifyKeys = (keys: string[]) =>
+          Promise.all(keys.map(key => this.notifyResourceUpdated(`kv://${encodeURIComponent(key)}`)));
+
         switch (args.action) {
           case "get": {
             if (!args.key) throw new Error("Key is required for get action.");
+            assertKvKeysAllowed("kv", [args.key]);
+            return this.wrapToolResult(await readValue(env, args.key, args.type ?? "json"), "kv");
+          }
+          case "get_many": {
+            if (!args.keys) throw new Error("keys are required for get_many action.");
+            assertKeysAllowed("get", args.keys);
             const type = args.type ?? "json";
             if (type === "arrayBuffer") {
-              const value = await env.KV.get(args.key, { type: "arrayBuffer" });
-              const bytes = value ? Array.from(new Uint8Array(value)) : [];
-              return this.wrapToolResult({ bytes }, "kv");
+              const values = await Promise.all(args.keys.map(key => readValue(env, key, type)));
+              return this.wrapToolResult({ values }, "kv");
             }
-            if (type === "text") {
-              const value = await env.KV.get(args.key, { type: "text" });
-              return this.wrapToolResult(value ?? "", "kv");
-            }
-            const value = await env.KV.get(args.key, { type: "json" });
-            return this.wrapToolResult(value, "kv");
+            const found =
+              type === "text"
+                ? await env.KV.getWithMetadata(args.keys, "text")
+                : await env.KV.getWithMetadata(args.keys, "json");
+            const values = args.keys.map(key => ({
+              key,
+              value: found.get(key)?.value ?? null,
+              metadata: found.get(key)?.metadata ?? null,
+            }));
+            return this.wrapToolResult({ values }, "kv");
           }
           case "put": {
             if (!args.key) throw new Error("Key is required for put action.");
             if (typeof args.value === "undefined") throw new Error("Value is required for put action.");
-            await env.KV.put(args.key, args.value, {
-              expirationTtl: args.expirationTtl,
-              metadata: args.metadata,
-            });
+            assertKvKeysAllowed("kv", [args.key]);
+            await writeValue(env, { ...args, key: args.key });
+            await notifyKeys([args.key]);
             return this.wrapToolResult({ message: `Stored value at ${args.key}` }, "kv");
           }
+          case "put_many": {
+            if (!args.entries) throw new Error("entries are required for put_many action.");
+            const keys = args.entries.map(entry => entry.key);
+            assertKeysAllowed("put", keys);
+            const results = await Promise.allSettled(args.entries.map(entry => writeValue(env, entry)));
+            const failed = results.flatMap((result, index) => {
+              if (result.status === "fulfilled") return [];
+              const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+              return [{ key: keys[index], error }];
+            });
+            await notifyKeys(keys.filter(key => !failed.some(entry => entry.key === key)));
+            return this.wrapToolResult({ stored: keys.length - failed.length, failed }, "kv");
+          }
           case "delete": {
             if (!args.key) throw new Error("Key is required for delete action.");
+            assertKvKeysAllowed("kv", [args.key]);
             await env.KV.delete(args.key);
+            await notifyKeys([args.key]);
             return this.wrapToolResult({ message: `Deleted ${args.key}` }, "kv");
           }
+          case "delete_many": {
+            if (!args.keys) throw new Error("keys are required for delete_many action.");
+            assertKeysAllowed("delete", args.keys);
+            await Promise.all(args.keys.map(key => env.KV.delete(key)));
+            await notifyKeys(args.keys);
+            return this.wrapToolResult({ deleted: args.keys.length }, "kv");
+          }
           case "list": {
-            const list = await env.KV.list({ prefix: args.prefix, limit: args.limit });
-            return this.wrapToolResult(list, "kv");
+            if (args.prefix && isReservedKvKey(args.prefix)) {
+              throw new ToolPermissionError("kv", `prefix ${args.prefix} is reserved`);
+            }
+            const list = await env.KV.list({ prefix: args.prefix, limit: args.limit, cursor: args.cursor });
+            return this.wrapToolResult(
+              {
+                keys: list.keys.filter(key => !isReservedKvKey(key.name)),
+                list_complete: list.list_complete,
+                cursor: list.list_complete ? null : list.cursor,
+              },
+              "kv",
+            );
           }
           default:
             throw new Error(`Unsupported action: ${args.action}`);
@@ -243,50 +654,180 @@ export class MyMCP extends McpAgent<Env, AgentState> {
     });
   }
 
+
+  private registerAtomicKvTool(): void {
+    const schema = z.object({
+      action: z.enum(["get", "set", "cas", "increment", "decrement", "delete", "lock", "unlock"]),
+      key: z.string().min(1),
+      value: z.any().optional(),
+      expectedVersion: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("cas/delete: version the key must currently have; 0 means it must not exist"),
+      delta: z.number().optional().describe("increment/decrement amount (default 1)"),
+      initial: z.number().optional().describe("Starting value for a counter that does not exist yet"),
+      ttlMs: z.number().int().positive().optional().describe("lock: lease duration, 1s to 5min (default 30s)"),
+      token: z
+        .string()
+        .optional()
+        .describe("Token returned by lock: renews it, releases it on unlock, and is required to modify a locked key"),
+      owner: z.string().optional(),
+      mirror: z.boolean().optional().describe("Copy committed values into the KV namespace for fast reads"),
+    });
+
+    this.registerTool({
+      name: "kv_atomic",
+      description:
+        "Strongly consistent key operations backed by a Durable Object: versioned get/set, compare-and-swap, counters and short-lived locks. Versions never repeat, even after delete. While a key is locked, set/cas/increment/decrement/delete need the lock token. Use it instead of kv when several agents update the same value.",
+      schema,
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: false },
+      handler: async ({ args, env }) => {
+        assertKvKeysAllowed("kv_atomic", [args.key]);
+        const operation = args.action === "decrement" ? "increment" : args.action;
+        const body = { ...args, delta: args.action === "decrement" ? -(args.delta ?? 1) : args.delta };
+        const response = await atomicKvStub(env, args.key).fetch(`${ATOMIC_KV_BASE}/${operation}`, {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify(body),
+        });
+        const data = (await response.json()) as { error?: string };
+        if (data.error) {
+          return this.wrapError(data.error, "kv_atomic");
+        }
+        if (args.mirror && response.ok && ["set", "cas", "increment", "decrement", "delete"].includes(args.action)) {
+          await this.notifyResourceUpdated(`kv://${encodeURIComponent(args.key)}`);
+        }
+        return this.wrapToolResult(data, "kv_atomic");
+      },
+    });
+  }
+
   private registerVectorizeTool(): void {
     const vectorSchema = z.object({
       id: z.string(),
       values: z.array(z.number()),
+      namespace: z.string().optional(),
+      metadata: z.record(z.any()).optional(),
+    });
+    const documentSchema = z.object({
+      id: z.string().min(1),
+      text: z.string(),
       metadata: z.record(z.any()).optional(),
     });
     const schema = z.object({
-      action: z.enum(["upsert", "query", "delete"]),
+      action: z.enum(["insert", "upsert", "query", "get", "delete", "describe", "upsert_text", "query_text"]),
       vectors: z.array(vectorSchema).optional(),
       vector: z.array(z.number()).optional(),
       topK: z.number().int().positive().optional(),
       filter: z.record(z.any()).optional(),
+      namespace: z.string().optional().describe("query/query_text: search one namespace. upsert_text: namespace for new vectors"),
+      returnValues: z.boolean().optional().describe("query: include vector values in matches"),
+      returnMetadata: z
+        .union([z.boolean(), z.enum(["all", "indexed", "none"])])
+        .optional()
+        .describe("query: metadata to include in matches (default none)"),
       ids: z.array(z.string()).optional(),
+      documents: z.array(documentSchema).optional().describe("upsert_text: documents to chunk, embed and store"),
+      text: z.string().optional().describe("query_text: text to search for"),
+      chunkSize: z.number().int().min(100).max(8000).optional().describe("upsert_text: characters per chunk (default 1000)"),
+      chunkOverlap: z.number().int().min(0).optional().describe("upsert_text: characters shared by neighbouring chunks (default 100)"),
     });
 
     this.registerTool({
       name: "vectorize",
-      description: "Interact with the Cloudflare Vectorize index for semantic storage and retrieval.",
+      description:
+        "Interact with the Cloudflare Vectorize index for semantic storage and retrieval. insert rejects IDs that already exist; upsert overwrites them. upsert_text and query_text embed text with the configured embedding provider.",
       schema,
       handler: async ({ args, env }) => {
         switch (args.action) {
+          case "insert":
           case "upsert": {
             if (!args.vectors?.length) {
-              throw new Error("Vectors are required for upsert.");
+              throw new Error(`Vectors are required for ${args.action}.`);
             }
-            await env.VECTORIZE.upsert(args.vectors.map(vector => ({
+            const vectors = args.vectors.map(vector => ({
               id: vector.id,
               values: vector.values,
-              metadata: vector.metadata,
-            })));
-            return this.wrapToolResult({ message: `Upserted ${args.vectors.length} vectors.` }, "vectorize");
+              namespace: vector.namespace,
+              metadata: vector.metadata as Record<string, VectorizeVectorMetadata> | undefined,
+            }));
+            await assertVectors(env.VECTORIZE, vectors);
+            if (args.action === "insert") {
+              const existing = await existingIds(env.VECTORIZE, vectors.map(vector => vector.id));
+              if (existing.length) {
+                throw new Error(
+                  `Vectors already exist: ${existing.slice(0, 10).join(", ")}${existing.length > 10 ? ", ..." : ""}. Use upsert to overwrite them.`,
+                );
+              }
+            }
+            const mutation =
+              args.action === "insert"
+                ? await vectorizeCall("insert", () => env.VECTORIZE.insert(vectors))
+                : await vectorizeCall("upsert", () => env.VECTORIZE.upsert(vectors));
+            return this.wrapToolResult(
+              { message: `${args.action === "insert" ? "Inserted" : "Upserted"} ${vectors.length} vectors.`, mutation },
+              "vectorize",
+            );
           }
           case "query": {
             if (!args.vector) throw new Error("Query vector is required.");
-            const result = await env.VECTORIZE.query(args.vector, {
-              topK: args.topK ?? 5,
-              filter: args.filter as VectorizeVectorMetadataFilter | undefined,
-            });
+            const topK = args.topK ?? 5;
+            assertTopK(topK, args);
+            assertNamespace(args.namespace);
+            await assertDimensions(env.VECTORIZE, [{ id: "query", length: args.vector.length }]);
+            const vector = args.vector;
+            const result = await vectorizeCall("query", () =>
+              env.VECTORIZE.query(vector, {
+                topK,
+                namespace: args.namespace,
+                returnValues: args.returnValues,
+                returnMetadata: args.returnMetadata,
+                filter: args.filter as VectorizeVectorMetadataFilter | undefined,
+              }),
+            );
             return this.wrapToolResult(result, "vectorize");
           }
+          case "get": {
+            const ids = args.ids ?? [];
+            assertIds(ids, VECTORIZE_LIMITS.getByIds, "get");
+            const vectors = await vectorizeCall("getByIds", () => env.VECTORIZE.getByIds(ids));
+            const found = new Set(vectors.map(vector => vector.id));
+            return this.wrapToolResult(
+              { vectors, missing: ids.filter(id => !found.has(id)) },
+              "vectorize",
+            );
+          }
           case "delete": {
-            if (!args.ids?.length) throw new Error("Vector IDs are required for delete.");
-            await env.VECTORIZE.deleteByIds(args.ids);
-            return this.wrapToolResult({ message: `Deleted ${args.ids.length} vectors.` }, "vectorize");
+            const ids = args.ids ?? [];
+            assertIds(ids, VECTORIZE_LIMITS.deleteByIds, "delete");
+            const mutation = await vectorizeCall("deleteByIds", () => env.VECTORIZE.deleteByIds(ids));
+            return this.wrapToolResult({ message: `Deleted ${ids.length} vectors.`, mutation }, "vectorize");
+          }
+          case "describe":
+            return this.wrapToolResult(await vectorizeCall("describe", () => describeIndex(env.VECTORIZE)), "vectorize");
+          case "upsert_text": {
+            if (!args.documents?.length) throw new Error("Documents are required for upsert_text.");
+            assertNamespace(args.namespace);
+            const provider = embeddingProvider(env);
+            const result = await upsertDocuments(env.VECTORIZE, provider, args.documents, {
+              chunkSize: args.chunkSize,
+              overlap: args.chunkOverlap,
+              namespace: args.namespace,
+            });
+            return this.wrapToolResult({ ...result, provider: provider.name, model: provider.model }, "vectorize");
+          }
+          case "query_text": {
+            if (!args.text) throw new Error("Query text is required.");
+            assertTopK(args.topK ?? 5, { returnMetadata: "all" });
+            assertNamespace(args.namespace);
+            const matches = await queryText(env.VECTORIZE, embeddingProvider(env), args.text, {
+              topK: args.topK,
+              namespace: args.namespace,
+              filter: args.filter as VectorizeVectorMetadataFilter | undefined,
+            });
+            return this.wrapToolResult({ matches }, "vectorize");
           }
           default:
             throw new Error(`Unsupported Vectorize action: ${args.action}`);
@@ -295,27 +836,342 @@ export class MyMCP extends McpAgent<Env, AgentState> {
     });
   }
 
+  private registerIngestTool(): void {
+    const schema = z.object({
+      action: z.enum(["ingest", "delete", "list"]).optional().describe("Defaults to ingest"),
+      url: z.string().url().optional(),
+      namespace: z.string().optional(),
+      metadata: z.record(z.any()).optional().describe("Extra metadata stored on every chunk"),
+      chunkSize: z.number().int().min(100).max(8000).optional(),
+      chunkOverlap: z.number().int().min(0).optional(),
+      waitFor: z.number().int().min(0).max(120_000).optional(),
+      endpoint: z.string().url().optional(),
+      force: z.boolean().optional().describe("Re-embed even when the page text has not changed"),
+      mode: z
+        .enum(["auto", "inline", "task"])
+        .optional()
+        .describe(`auto (default) moves pages with more than ${INGEST_INLINE_CHUNK_LIMIT} chunks to a background task`),
+      limit: z.number().int().min(1).max(200).optional().describe("list: page size (default 50)"),
+      offset: z.number().int().min(0).optional(),
+    });
+
+    this.registerTool({
+      name: "ingest_url",
+      description:
+        "Render a URL with Browser Rendering, extract its readable text, chunk and embed it into Vectorize, and record it in D1 so it can be re-ingested or deleted by URL. Large pages run as a durable_task.",
+      schema,
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: true },
+      handler: async ({ args, env, principal, sessionId, progress }) => {
+        const action = args.action ?? "ingest";
+        if (action === "list") {
+          const documents = await listIngestedDocuments(env.DB, { limit: args.limit, offset: args.offset });
+          return this.wrapToolResult({ documents }, "ingest_url");
+        }
+        if (!args.url) {
+          throw new Error(`url is required for ${action}.`);
+        }
+        assertNamespace(args.namespace);
+        if (action === "delete") {
+          return this.wrapToolResult(await deleteIngestedUrl(env, args.url), "ingest_url");
+        }
+
+        const options = { ...args, url: args.url, overlap: args.chunkOverlap };
+        const enqueue = async (chunks?: number) => {
+          const task = await this.queueBackgroundTool(env, "ingest_url", { ...args, mode: "inline" }, {
+            principal,
+            subscriber: sessionId ? { sessionId } : undefined,
+          });
+          if (!task.id) {
+            return this.wrapError(task.error ?? "Failed to queue the ingest task.", "ingest_url");
+          }
+          return this.wrapToolResult({ status: "queued", url: args.url, taskId: task.id, chunks }, "ingest_url");
+        };
+
+        if (args.mode === "task") {
+          return enqueue();
+        }
+        await progress({ progress: 0, message: `Rendering ${args.url}` });
+        const page = await preparePage(env, options);
+        // The task renders the page again; rendering is cheap next to embedding.
+        if (
+          (args.mode ?? "auto") === "auto" &&
+          page.chunks.length > INGEST_INLINE_CHUNK_LIMIT &&
+          !isUnchanged(page, options)
+        ) {
+          return enqueue(page.chunks.length);
+        }
+        const result = await ingestPreparedPage(env, page, options, progress);
+        return this.wrapToolResult(result, "ingest_url");
+      },
+    });
+  }
+
+  private registerCrawlTool(): void {
+    const schema = z.object({
+      action: z.enum(["start", "status", "pages", "page", "cancel", "list"]),
+      url: z.string().url().optional().describe("start: seed URL. page: URL of a crawled page"),
+      crawlId: z.string().optional(),
+      scope: z
+        .enum(["origin", "prefix"])
+        .optional()
+        .describe("start: stay on the seed origin, or under pathPrefix (default prefix)"),
+      pathPrefix: z.string().startsWith("/").optional().describe("start: defaults to the seed URL's directory"),
+      maxDepth: z.number().int().min(0).max(CRAWL_MAX_DEPTH).optional().describe("start: link depth from the seed (default 3)"),
+      maxPages: z.number().int().min(1).max(CRAWL_MAX_PAGES).optional().describe("start: URLs to visit (default 100)"),
+      delayMs: z
+        .number()
+        .int()
+        .min(CRAWL_MIN_DELAY_MS)
+        .max(60_000)
+        .optional()
+        .describe("start: pause between page fetches; robots.txt Crawl-delay wins when longer (default 1000)"),
+      respectRobots: z.boolean().optional().describe("start: obey robots.txt (default true)"),
+      format: z.enum(["markdown", "text", "html"]).optional().describe("start: stored page format (default markdown)"),
+      maxChars: z.number().int().min(1000).max(BROWSER_MAX_CHARS).optional().describe("Cap on stored or returned page text"),
+      waitFor: z.number().int().min(0).max(120_000).optional(),
+      endpoint: z.string().url().optional(),
+      status: z.enum(["queued", "done", "failed", "blocked", "duplicate", "skipped"]).optional().describe("pages: filter"),
+      limit: z.number().int().min(1).max(200).optional(),
+      offset: z.number().int().min(0).optional(),
+    });
+
+    this.registerTool({
+      name: "browser_crawl",
+      description:
+        "Crawl a site with Browser Rendering as a durable background task. Pages are visited breadth-first within the seed origin or path prefix, respecting robots.txt and a politeness delay, deduplicated by canonical URL, and stored in D1 and KV. status, pages and page can be queried while the crawl runs.",
+      schema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+      handler: async ({ args, env, principal, sessionId }) => {
+        const requireCrawl = async () => {
+          if (!args.crawlId) throw new Error(`crawlId is required for ${args.action}.`);
+          const job = await getCrawlJob(env.DB, args.crawlId);
+          // Crawls started by other principals are reported as missing rather than forbidden.
+          if (!job || job.owner !== taskOwnerId(principal)) throw new Error(`Crawl ${args.crawlId} not found.`);
+          return job;
+        };
+
+        switch (args.action) {
+          case "start": {
+            if (!args.url) throw new Error("url is required to start a crawl.");
+            const job = await startCrawl(
+              env,
+              args.url,
+              {
+                scope: args.scope ?? "prefix",
+                pathPrefix: args.pathPrefix ?? defaultPathPrefix(args.url),
+                maxDepth: args.maxDepth ?? 3,
+                maxPages: args.maxPages ?? 100,
+                delayMs: args.delayMs ?? 1000,
+                respectRobots: args.respectRobots ?? true,
+                format: args.format ?? "markdown",
+                maxChars: args.maxChars ?? BROWSER_MAX_CHARS,
+                waitFor: args.waitFor,
+                endpoint: args.endpoint,
+                subscriber: sessionId ? { sessionId } : undefined,
+              },
+              principal,
+            );
+            if (job.status === "completed") {
+              return this.wrapToolResult(
+                { crawlId: job.id, status: job.status, message: "Seed URL is disallowed by robots.txt." },
+                "browser_crawl",
+              );
+            }
+            const task = await queueCrawlSlice(env, job, principal);
+            if (!task.id) {
+              const error = task.error ?? "Failed to queue the crawl task.";
+              await updateCrawlJob(env.DB, job.id, { status: "failed", error });
+              return this.wrapError(error, "browser_crawl");
+            }
+            await this.notifyResourceUpdated(`task://${task.id}`);
+            return this.wrapToolResult(
+              {
+                crawlId: job.id,
+                taskId: task.id,
+                status: job.status,
+                seed: job.seed,
+                options: { ...job.options, subscriber: undefined },
+              },
+              "browser_crawl",
+            );
+          }
+          case "status": {
+            const job = await requireCrawl();
+            return this.wrapToolResult(
+              {
+                ...job,
+                options: { ...job.options, subscriber: undefined },
+                robots: job.robots ? { rules: job.robots.rules.length, crawlDelayMs: job.robots.crawlDelayMs } : null,
+                pages: await crawlPageCounts(env.DB, job.id),
+              },
+              "browser_crawl",
+            );
+          }
+          case "pages": {
+            const job = await requireCrawl();
+            const pages = await listCrawlPages(env.DB, job.id, {
+              status: args.status,
+              limit: args.limit,
+              offset: args.offset,
+            });
+            return this.wrapToolResult({ crawlId: job.id, status: job.status, pages }, "browser_crawl");
+          }
+          case "page": {
+            const job = await requireCrawl();
+            if (!args.url) throw new Error("url is required for page.");
+            const page = await getCrawlPage(env.DB, job.id, normalizeUrl(args.url) ?? args.url);
+            if (!page) {
+              return this.wrapError(`${args.url} is not part of crawl ${job.id}.`, "browser_crawl");
+            }
+            const content = page.contentKey ? await getCrawlContent(env.KV, page.contentKey) : null;
+            const cut = content === null ? undefined : truncateText(content, args.maxChars ?? BROWSER_DEFAULT_MAX_CHARS);
+            return this.wrapToolResult(
+              { ...page, content: cut?.text ?? null, truncated: cut?.truncated ?? false },
+              "browser_crawl",
+            );
+          }
+          case "cancel": {
+            const job = await cancelCrawl(env, (await requireCrawl()).id);
+            return this.wrapToolResult({ crawlId: args.crawlId, status: job?.status }, "browser_crawl");
+          }
+          case "list": {
+            const jobs = await listCrawlJobs(env.DB, taskOwnerId(principal), args.limit ?? 20);
+            return this.wrapToolResult(
+              {
+                crawls: jobs.map(job => ({
+                  id: job.id,
+                  seed: job.seed,
+                  status: job.status,
+                  createdAt: job.createdAt,
+                  updatedAt: job.updatedAt,
+                })),
+              },
+              "browser_crawl",
+            );
+          }
+          default:
+            throw new Error(`Unsupported crawl action: ${args.action}`);
+        }
+      },
+    });
+  }
+
+  /** Queues a tool call on the long-task Durable Object and announces the new task resource. */
+  private async queueBackgroundTool(
+    env: Env,
+    tool: string,
+    data: Record<string, unknown>,
+    options: { principal?: Principal; subscriber?: TaskSubscriber; delayMs?: number; timeoutMs?: number },
+  ): Promise<{ id?: string; error?: string }> {
+    const response = await longTaskStub(env).fetch(`${LONG_TASK_BASE}/task`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ operation: tool, data, ...options }),
+    });
+    const task = (await response.json()) as { id?: string; error?: string };
+    if (!response.ok || !task.id) {
+      return { error: task.error ?? `Failed to queue ${tool}.` };
+    }
+    await this.notifyResourceUpdated(`task://${task.id}`);
+    return task;
+  }
+
   private registerDurableTool(): void {
+    const retrySchema = z.object({
+      maxAttempts: z.number().int().min(1).max(20).optional(),
+      initialDelayMs: z.number().int().min(0).optional(),
+      maxDelayMs: z.number().int().min(0).optional(),
+      backoffMultiplier: z.number().min(1).max(10).optional(),
+      jitter: z.number().min(0).max(1).optional(),
+    });
     const schema = z.object({
-      action: z.enum(["start", "status", "list", "cancel"]),
+      action: z.enum([
+        "start",
+        "status",
+        "list",
+        "cancel",
+        "dead_letters",
+        "requeue",
+        "subscribe",
+        "workflow_start",
+        "schedule_create",
+        "schedule_list",
+        "schedule_get",
+        "schedule_pause",
+        "schedule_resume",
+        "schedule_delete",
+      ]),
       taskId: z.string().optional(),
+      stepId: z.string().optional().describe("With status, return a single workflow step"),
+      scheduleId: z.string().optional(),
       payload: z
         .object({
           operation: z.string(),
           data: z.record(z.any()).optional(),
-          durationMs: z.number().int().positive().optional(),
+          delayMs: z.number().int().min(0).optional(),
+          timeoutMs: z.number().int().positive().optional(),
+          retry: retrySchema.optional(),
+        })
+        .optional(),
+      workflow: z
+        .object({
+          name: z.string().optional(),
+          input: z.record(z.any()).optional(),
+          steps: z
+            .array(
+              z.object({
+                id: z.string(),
+                tool: z.string(),
+                args: z
+                  .record(z.any())
+                  .optional()
+                  .describe("Strings may use {{input.path}} or {{steps.<id>.output.path}} placeholders"),
+                dependsOn: z.array(z.string()).optional(),
+                when: z
+                  .object({
+                    ref: z.string(),
+                    equals: z.any().optional(),
+                    notEquals: z.any().optional(),
+                    exists: z.boolean().optional(),
+                  })
+                  .optional(),
+                timeoutMs: z.number().int().positive().optional(),
+                retry: retrySchema.optional(),
+                continueOnError: z.boolean().optional(),
+              }),
+            )
+            .min(1),
+          delayMs: z.number().int().min(0).optional(),
+          timeoutMs: z.number().int().positive().optional(),
+          retry: retrySchema.optional(),
+        })
+        .optional(),
+      schedule: z
+        .object({
+          name: z.string().optional(),
+          operation: z.string(),
+          data: z.record(z.any()).optional(),
+          cron: z.string().optional(),
+          intervalMs: z.number().int().positive().optional(),
+          timeoutMs: z.number().int().positive().optional(),
+          retry: retrySchema.optional(),
         })
         .optional(),
     });
 
     this.registerTool({
       name: "durable_task",
-      description: "Interact with the Durable Object for long-running workflows.",
+      description:
+        "Run an operation in the background Durable Object. The operation is a registered operation or any tool name (optionally prefixed with 'tool:') and data is passed as its arguments. workflow_start runs a graph of tool calls step by step. Tasks started from a session send it resources/updated notifications for task://<id> whenever progress or status changes; subscribe adds the session to an existing task.",
       schema,
-      handler: async ({ args, env }) => {
-        const id = env.LONG_TASK.idFromName("mcp");
-        const stub = env.LONG_TASK.get(id);
-        const base = "https://durable-task";
+      handler: async ({ args, env, principal, sessionId }) => {
+        const owner = taskOwnerHeaders(principal);
+        const stub = {
+          fetch: (url: string, init: { method?: string; headers?: Record<string, string>; body?: string } = {}) =>
+            longTaskStub(env).fetch(url, { ...init, headers: { ...init.headers, ...owner } }),
+        };
+        const base = LONG_TASK_BASE;
+        const subscriber = sessionId ? { sessionId } : undefined;
 
         switch (args.action) {
           case "start": {
@@ -325,16 +1181,21 @@ export class MyMCP extends McpAgent<Env, AgentState> {
             const response = await stub.fetch(`${base}/task`, {
               method: "POST",
               headers: { "content-type": "application/json" },
-              body: JSON.stringify(args.payload),
+              body: JSON.stringify({ ...args.payload, subscriber, principal }),
             });
-            const data = await response.json();
+            const data = (await response.json()) as { id?: string };
+            if (data.id) {
+              await this.notifyResourceUpdated(`task://${data.id}`);
+            }
             return this.wrapToolResult(data, "durable_task");
           }
           case "status": {
             if (!args.taskId) throw new Error("taskId is required for status");
-            const response = await stub.fetch(`${base}/task/${args.taskId}`);
+            const path = args.stepId ? `/task/${args.taskId}/steps/${args.stepId}` : `/task/${args.taskId}`;
+            const response = await stub.fetch(`${base}${path}`);
             if (response.status === 404) {
-              return this.wrapError(`Task ${args.taskId} not found.`, "durable_task");
+              const target = args.stepId ? `Step ${args.stepId} of task ${args.taskId}` : `Task ${args.taskId}`;
+              return this.wrapError(`${target} not found.`, "durable_task");
             }
             const data = await response.json();
             return this.wrapToolResult(data, "durable_task");
@@ -347,6 +1208,101 @@ export class MyMCP extends McpAgent<Env, AgentState> {
           case "cancel": {
             if (!args.taskId) throw new Error("taskId is required for cancel");
             const response = await stub.fetch(`${base}/task/${args.taskId}`, { method: "DELETE" });
+            if (response.status === 404) {
+              return this.wrapError(`Task ${args.taskId} not found.`, "durable_task");
+            }
+            const data = await response.json();
+            await this.notifyResourceUpdated(`task://${args.taskId}`);
+            return this.wrapToolResult(data, "durable_task");
+          }
+          case "dead_letters": {
+            const response = await stub.fetch(`${base}/task?status=dead_letter`);
+            const data = await response.json();
+            return this.wrapToolResult(data, "durable_task");
+          }
+          case "requeue": {
+            if (!args.taskId) throw new Error("taskId is required for requeue");
+            const response = await stub.fetch(`${base}/task/${args.taskId}/requeue`, { method: "POST" });
+            const data = (await response.json()) as { error?: string };
+            if (!response.ok) {
+              return this.wrapError(data.error ?? `Failed to requeue task ${args.taskId}.`, "durable_task");
+            }
+            await this.notifyResourceUpdated(`task://${args.taskId}`);
+            return this.wrapToolResult(data, "durable_task");
+          }
+          case "subscribe": {
+            if (!args.taskId) throw new Error("taskId is required for subscribe");
+            if (!subscriber) {
+              return this.wrapError("subscribe requires an MCP session.", "durable_task");
+            }
+            const response = await stub.fetch(`${base}/task/${args.taskId}/subscribe`, {
+              method: "POST",
+              headers: { "content-type": "application/json" },
+              body: JSON.stringify(subscriber),
+            });
+            if (response.status === 404) {
+              return this.wrapError(`Task ${args.taskId} not found.`, "durable_task");
+            }
+            const data = await response.json();
+            return this.wrapToolResult(data, "durable_task");
+          }
+          case "workflow_start": {
+            if (!args.workflow) throw new Error("workflow is required for workflow_start");
+            const { name, input, steps, ...options } = args.workflow;
+            const response = await stub.fetch(`${base}/task`, {
+              method: "POST",
+              headers: { "content-type": "application/json" },
+              body: JSON.stringify({
+                ...options,
+                operation: WORKFLOW_OPERATION,
+                data: input,
+                workflow: { name, steps },
+                subscriber,
+                principal,
+              }),
+            });
+            const data = (await response.json()) as { id?: string; error?: string };
+            if (!response.ok) {
+              return this.wrapError(data.error ?? "Failed to start workflow.", "durable_task");
+            }
+            if (data.id) {
+              await this.notifyResourceUpdated(`task://${data.id}`);
+            }
+            return this.wrapToolResult(data, "durable_task");
+          }
+          case "schedule_create": {
+            if (!args.schedule) throw new Error("schedule is required for schedule_create");
+            const response = await stub.fetch(`${base}/schedule`, {
+              method: "POST",
+              headers: { "content-type": "application/json" },
+              body: JSON.stringify({ ...args.schedule, principal }),
+            });
+            const data = (await response.json()) as { error?: string };
+            if (!response.ok) {
+              return this.wrapError(data.error ?? "Failed to create schedule.", "durable_task");
+            }
+            return this.wrapToolResult(data, "durable_task");
+          }
+          case "schedule_list": {
+            const response = await stub.fetch(`${base}/schedule`);
+            const data = await response.json();
+            return this.wrapToolResult(data, "durable_task");
+          }
+          case "schedule_get":
+          case "schedule_pause":
+          case "schedule_resume":
+          case "schedule_delete": {
+            if (!args.scheduleId) throw new Error(`scheduleId is required for ${args.action}`);
+            const path = `${base}/schedule/${args.scheduleId}`;
+            const response =
+              args.action === "schedule_get"
+                ? await stub.fetch(path)
+                : args.action === "schedule_delete"
+                  ? await stub.fetch(path, { method: "DELETE" })
+                  : await stub.fetch(`${path}/${args.action.replace("schedule_", "")}`, { method: "POST" });
+            if (response.status === 404) {
+              return this.wrapError(`Schedule ${args.scheduleId} not found.`, "durable_task");
+            }
             const data = await response.json();
             return this.wrapToolResult(data, "durable_task");
           }
@@ -381,19 +1337,23 @@ export class MyMCP extends McpAgent<Env, AgentState> {
         continue;
       }
 
-      const shapeEntries = Object.entries(config.schema ?? {}).map(([key, field]) => {
-        const schema = scalarField(field);
-        return [key, field.optional ? schema.optional() : schema] as const;
-      });
-      const shape = Object.fromEntries(shapeEntries);
+      const fields = z.record(remoteToolFieldSchema).safeParse(config.schema ?? {});
+      if (!fields.success) {
+        console.error(`Skipping remote tool ${config.name}: invalid schema`, fields.error.flatten());
+        continue;
+      }
+
+      const shape = Object.fromEntries(
+        Object.entries(fields.data).map(([key, field]) => [key, propertySchema(field)] as const),
+      );
       const schema = z.object(shape).catchall(z.any());
       const jsonSchema = {
         type: "object",
         properties: Object.fromEntries(
-          Object.entries(config.schema ?? {}).map(([key, field]) => [key, jsonSchemaFromField(field)]),
+          Object.entries(fields.data).map(([key, field]) => [key, jsonSchemaFromField(field)]),
         ),
-        required: Object.entries(config.schema ?? {})
-          .filter(([, field]) => !field.optional)
+        required: Object.entries(fields.data)
+          .filter(([, field]) => isRequiredField(field))
           .map(([key]) => key),
       } satisfies Record<string, unknown>;
 
@@ -402,27 +1362,29 @@ export class MyMCP extends McpAgent<Env, AgentState> {
         description: config.description ?? `Proxy request to ${config.endpoint}`,
         schema,
         jsonSchemaOverride: jsonSchema,
-        handler: async ({ args }) => {
+        handler: async ({ args, env }) => {
           const method = (config.method ?? "POST").toUpperCase();
-          const headers: CfHeadersInit = {
+          // Configured headers come from the operator, so they may carry credentials.
+          const headers: Record<string, string> = {
             "content-type": "application/json",
             ...(config.headers ?? {}),
           };
+          const policy = egressPolicy(env);
 
-          let response: CfResponse;
+          let response: Response;
           if (method === "GET") {
             const url = new URL(config.endpoint);
             Object.entries(args).forEach(([key, value]) => {
               if (typeof value === "undefined" || value === null) return;
               url.searchParams.set(key, typeof value === "string" ? value : JSON.stringify(value));
             });
-            response = (await fetch(url.toString(), { method, headers })) as unknown as CfResponse;
+            response = await egressFetch(policy, url.toString(), { method, headers });
           } else {
-            response = (await fetch(config.endpoint, {
+            response = await egressFetch(policy, config.endpoint, {
               method,
               headers,
               body: JSON.stringify(args),
-            })) as unknown as CfResponse;
+            });
           }
 
           const payload = await this.parseResponse(response);
@@ -446,6 +1408,119 @@ export class MyMCP extends McpAgent<Env, AgentState> {
     }
   }
 
+  private registerResources(): void {
+    this.registerResourceTemplate({
+      name: "d1_table",
+      uriTemplate: "d1://tables/{name}",
+      title: "D1 table",
+      description: "Column schema and sample rows for a table in the bound D1 database.",
+      mimeType: "application/json",
+      tool: "d1_query",
+      list: async ({ env }) => {
+        const tables = await env.DB.prepare(
+          "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name NOT LIKE '_cf_%' ORDER BY name",
+        ).all<{ name: string }>();
+        return tables.results.map(table => ({
+          uri: `d1://tables/${encodeURIComponent(table.name)}`,
+          name: table.name,
+          mimeType: "application/json",
+        }));
+      },
+      handler: async ({ uri, variables, env, principal }) => {
+        const table = await env.DB.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?")
+          .bind(variables.name)
+          .first<{ name: string }>();
+        if (!table) {
+          throw new Error(`Table ${variables.name} not found.`);
+        }
+        const sampleSql = `SELECT * FROM ${quoteIdentifier(table.name)} LIMIT ${SAMPLE_ROW_LIMIT}`;
+        if (!this.isToolCallAllowed(principal, "d1_query", { statement: { sql: sampleSql }, readOnly: true })) {
+          throw new Error(`Access to table ${table.name} is not allowed.`);
+        }
+        const columns = await env.DB.prepare(`PRAGMA table_info(${quoteIdentifier(table.name)})`).all();
+        const sample = await env.DB.prepare(sampleSql).all();
+        return this.wrapResource(uri, { table: table.name, columns: columns.results, sampleRows: sample.results });
+      },
+    });
+
+    this.registerResourceTemplate({
+      name: "kv_value",
+      uriTemplate: "kv://{key}",
+      title: "KV value",
+      description: "Value and metadata stored under a key in the bound KV namespace.",
+      tool: "kv",
+      list: async ({ env, principal }) => {
+        const list = await env.KV.list({ limit: RESOURCE_LIST_LIMIT });
+        return list.keys
+          .filter(key => !isReservedKvKey(key.name))
+          .filter(key => this.isToolCallAllowed(principal, "kv", { action: "get", key: key.name }))
+          .map(key => ({ uri: `kv://${encodeURIComponent(key.name)}`, name: key.name }));
+      },
+      handler: async ({ uri, variables, env, principal }) => {
+        if (
+          isReservedKvKey(variables.key) ||
+          !this.isToolCallAllowed(principal, "kv", { action: "get", key: variables.key })
+        ) {
+          throw new Error(`Access to key ${variables.key} is not allowed.`);
+        }
+        const { value, metadata } = await env.KV.getWithMetadata(variables.key, { type: "text" });
+        if (value === null) {
+          throw new Error(`Key ${variables.key} not found.`);
+        }
+        return {
+          contents: [{ uri: uri.toString(), text: value, _meta: metadata ? { metadata } : undefined }],
+        };
+      },
+    });
+
+    this.registerResourceTemplate({
+      name: "durable_task",
+      uriTemplate: "task://{id}",
+      title: "Durable task",
+      description: "Current state of a task managed by the long-running task Durable Object.",
+      mimeType: "application/json",
+      tool: "durable_task",
+      list: async ({ env, principal }) => {
+        if (!this.isToolCallAllowed(principal, "durable_task", { action: "list" })) {
+          return [];
+        }
+        const response = await longTaskStub(env).fetch(`${LONG_TASK_BASE}/task`, {
+          headers: taskOwnerHeaders(principal),
+        });
+        const data = (await response.json()) as { tasks: Array<{ id: string; operation: string; status: string }> };
+        return data.tasks.map(task => ({
+          uri: `task://${task.id}`,
+          name: `${task.operation} (${task.status})`,
+          mimeType: "application/json",
+        }));
+      },
+      handler: async ({ uri, variables, env, principal }) => {
+        if (!this.isToolCallAllowed(principal, "durable_task", { action: "status", taskId: variables.id })) {
+          throw new Error(`Access to task ${variables.id} is not allowed.`);
+        }
+        const response = await longTaskStub(env).fetch(`${LONG_TASK_BASE}/task/${variables.id}`, {
+          headers: taskOwnerHeaders(principal),
+        });
+        if (response.status === 404) {
+          throw new Error(`Task ${variables.id} not found.`);
+        }
+        return this.wrapResource(uri, await response.json());
+      },
+    });
+  }
+
+  private wrapResource(uri: URL, data: unknown): ReadResourceResult {
+    return {
+      contents: [
+        {
+          uri: uri.toString(),
+          mimeType: "application/json",
+          text: JSON.stringify(data ?? null, null, 2),
+        },
+      ],
+    };
+  }
+
   private async parseResponse(response: Response | CfResponse): Promise<unknown> {
     const text = await response.text();
     if (!text) return null;
@@ -0,0 +1,107 @@
+import type { Env, Principal } from "../types";
+import { randomToken, sha256Hex } from "./crypto";
+import type { ToolPolicy } from "./policy";
+
+const KEY_PREFIX = "auth:apikey:";
+const KEY_ID_PREFIX = "auth:apikey-id:";
+const TOKEN_PREFIX = "mcp_sk_";
+
+export const DEFAULT_SCOPES = ["mcp"];
+
+export type ApiKeyRecord = {
+  id: string;
+  name: string;
+  scopes: string[];
+  policy?: ToolPolicy;
+  d1ReadOnly?: boolean;
+  createdAt: string;
+};
+
+export const principalFromApiKey = (record: ApiKeyRecord): Principal => ({
+  id: `key:${record.id}`,
+  name: record.name,
+  kind: "api_key",
+  scopes: record.scopes,
+  policy: record.policy,
+  d1ReadOnly: record.d1ReadOnly,
+});
+
+export const createApiKey = async (
+  env: Env,
+  input: { name: string; scopes?: string[]; policy?: ToolPolicy; d1ReadOnly?: boolean },
+): Promise<{ key: string; record: ApiKeyRecord }> => {
+  const key = randomToken(TOKEN_PREFIX);
+  const hash = await sha256Hex(key);
+  const record: ApiKeyRecord = {
+    id: crypto.randomUUID(),
+    name: input.name,
+    scopes: input.scopes?.length ? input.scopes : DEFAULT_SCOPES,
+    policy: input.policy,
+    d1ReadOnly: input.d1ReadOnly,
+    createdAt: new Date().toISOString(),
+  };
+  await env.KV.put(`${KEY_PREFIX}${hash}`, JSON.stringify(record));
+  await env.KV.put(`${KEY_ID_PREFIX}${record.id}`, hash);
+  return { key, record };
+};
+
+export const listApiKeys = async (env: Env): Promise<ApiKeyRecord[]> => {
+  const records: ApiKeyRecord[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await env.KV.list({ prefix: KEY_ID_PREFIX, cursor });
+    for (const entry of page.keys) {
+      const hash = await env.KV.get(entry.name);
+      const record = hash ? await env.KV.get<ApiKeyRecord>(`${KEY_PREFIX}${hash}`, { type: "json" }) : null;
+      if (record) {
+        records.push(record);
+      }
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return records;
+};
+
+export const getApiKey = async (env: Env, id: string): Promise<ApiKeyRecord | null> => {
+  const hash = await env.KV.get(`${KEY_ID_PREFIX}${id}`);
+  return hash ? env.KV.get<ApiKeyRecord>(`${KEY_PREFIX}${hash}`, { type: "json" }) : null;
+};
+
+export const updateApiKey = async (
+  env: Env,
+  id: string,
+  changes: { name?: string; scopes?: string[]; policy?: ToolPolicy | null; d1ReadOnly?: boolean | null },
+): Promise<ApiKeyRecord | null> => {
+  const hash = await env.KV.get(`${KEY_ID_PREFIX}${id}`);
+  const record = await getApiKey(env, id);
+  if (!hash || !record) {
+    return null;
+  }
+  const updated: ApiKeyRecord = {
+    ...record,
+    name: changes.name ?? record.name,
+    scopes: changes.scopes ?? record.scopes,
+    policy: changes.policy === null ? undefined : changes.policy ?? record.policy,
+    d1ReadOnly: changes.d1ReadOnly === null ? undefined : changes.d1ReadOnly ?? record.d1ReadOnly,
+  };
+  await env.KV.put(`${KEY_PREFIX}${hash}`, JSON.stringify(updated));
+  return updated;
+};
+
+export const revokeApiKey = async (env: Env, id: string): Promise<boolean> => {
+  const hash = await env.KV.get(`${KEY_ID_PREFIX}${id}`);
+  if (!hash) {
+    return false;
+  }
+  await env.KV.delete(`${KEY_PREFIX}${hash}`);
+  await env.KV.delete(`${KEY_ID_PREFIX}${id}`);
+  return true;
+};
+
+export const verifyApiKey = async (env: Env, key: string): Promise<ApiKeyRecord | null> => {
+  if (!key.startsWith(TOKEN_PREFIX)) {
+    return null;
+  }
+  const hash = await sha256Hex(key);
+  return env.KV.get<ApiKeyRecord>(`${KEY_PREFIX}${hash}`, { type: "json" });
+};
@@ -0,0 +1,34 @@
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = "";
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+export const randomToken = (prefix: string, size = 32): string => {
+  const bytes = new Uint8Array(size);
+  crypto.getRandomValues(bytes);
+  return `${prefix}${toBase64Url(bytes)}`;
+};
+
+export const sha256Hex = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(value));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, "0")).join("");
+};
+
+export const sha256Base64Url = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(value));
+  return toBase64Url(new Uint8Array(digest));
+};
+
+export const timingSafeEqual = async (a: string, b: string): Promise<boolean> => {
+  const [left, right] = await Promise.all([sha256Hex(a), sha256Hex(b)]);
+  let diff = 0;
+  for (let i = 0; i < left.length; i += 1) {
+    diff |= left.charCodeAt(i) ^ right.charCodeAt(i);
+  }
+  return diff === 0;
+};
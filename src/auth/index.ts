@@ -0,0 +1,80 @@
+import type { MiddlewareHandler } from "hono";
+import type { AppBindings, Env, Principal } from "../types";
+import { principalFromApiKey, verifyApiKey } from "./api-keys";
+import { timingSafeEqual } from "./crypto";
+import { verifyAccessToken } from "./oauth";
+
+export interface AuthProvider {
+  name: string;
+  authenticate(token: string, env: Env): Promise<Principal | null>;
+}
+
+export const apiKeyProvider: AuthProvider = {
+  name: "api_key",
+  async authenticate(token, env) {
+    const record = await verifyApiKey(env, token);
+    return record ? principalFromApiKey(record) : null;
+  },
+};
+
+export const oauthProvider: AuthProvider = {
+  name: "oauth",
+  authenticate: (token, env) => verifyAccessToken(env, token),
+};
+
+const providers: AuthProvider[] = [apiKeyProvider, oauthProvider];
+
+const ANONYMOUS_PRINCIPAL: Principal = {
+  id: "anonymous",
+  kind: "anonymous",
+  scopes: ["*"],
+};
+
+export const bearerToken = (request: Request): string | null => {
+  const header = request.headers.get("authorization");
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+};
+
+export const authenticate = async (request: Request, env: Env): Promise<Principal | null> => {
+  if (env.MCP_AUTH_DISABLED === "true") {
+    return ANONYMOUS_PRINCIPAL;
+  }
+  const token = bearerToken(request);
+  if (!token) {
+    return null;
+  }
+  for (const provider of providers) {
+    const principal = await provider.authenticate(token, env);
+    if (principal) {
+      return principal;
+    }
+  }
+  return null;
+};
+
+export const resourceMetadataUrl = (request: Request): string =>
+  new URL("/.well-known/oauth-protected-resource", request.url).toString();
+
+export const requireAuth: MiddlewareHandler<AppBindings> = async (c, next) => {
+  const principal = await authenticate(c.req.raw, c.env);
+  if (!principal) {
+    return c.json({ error: "Unauthorized" }, 401, {
+      "www-authenticate": `Bearer resource_metadata="${resourceMetadataUrl(c.req.raw)}"`,
+    });
+  }
+  c.set("principal", principal);
+  await next();
+};
+
+export const requireAdmin: MiddlewareHandler<AppBindings> = async (c, next) => {
+  const expected = c.env.MCP_ADMIN_TOKEN;
+  if (!expected) {
+    return c.json({ error: "Admin API is disabled" }, 503);
+  }
+  const token = bearerToken(c.req.raw);
+  if (!token || !(await timingSafeEqual(token, expected))) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+  await next();
+};
@@ -0,0 +1,205 @@
+import type { Env, Principal } from "../types";
+import { getApiKey } from "./api-keys";
+import { randomToken, sha256Base64Url, sha256Hex } from "./crypto";
+
+const CLIENT_PREFIX = "oauth:client:";
+const CODE_PREFIX = "oauth:code:";
+const ACCESS_PREFIX = "oauth:access:";
+const REFRESH_PREFIX = "oauth:refresh:";
+
+const ACCESS_TOKEN_PREFIX = "mcp_at_";
+const REFRESH_TOKEN_PREFIX = "mcp_rt_";
+
+const CODE_TTL_SECONDS = 600;
+const ACCESS_TTL_SECONDS = 3600;
+const REFRESH_TTL_SECONDS = 30 * 24 * 3600;
+
+export type OAuthClient = {
+  clientId: string;
+  clientName?: string;
+  redirectUris: string[];
+  tokenEndpointAuthMethod: "none" | "client_secret_post";
+  clientSecretHash?: string;
+  createdAt: string;
+};
+
+type AuthorizationCode = {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  principal: Principal;
+};
+
+type TokenRecord = {
+  clientId: string;
+  principal: Principal;
+  expiresAt: number;
+};
+
+export type TokenResponse = {
+  access_token: string;
+  token_type: "Bearer";
+  expires_in: number;
+  refresh_token: string;
+  scope: string;
+};
+
+export class OAuthError extends Error {
+  constructor(readonly code: string, description: string, readonly status = 400) {
+    super(description);
+  }
+}
+
+export const registerClient = async (
+  env: Env,
+  input: { redirectUris: string[]; clientName?: string; tokenEndpointAuthMethod?: string },
+): Promise<{ client: OAuthClient; clientSecret?: string }> => {
+  if (!input.redirectUris.length) {
+    throw new OAuthError("invalid_redirect_uri", "At least one redirect_uri is required");
+  }
+  for (const uri of input.redirectUris) {
+    let parsed: URL;
+    try {
+      parsed = new URL(uri);
+    } catch {
+      throw new OAuthError("invalid_redirect_uri", `Invalid redirect_uri ${uri}`);
+    }
+    const loopback = parsed.hostname === "localhost" || parsed.hostname === "127.0.0.1";
+    if (parsed.protocol === "http:" && !loopback) {
+      throw new OAuthError("invalid_redirect_uri", `redirect_uri ${uri} must use https`);
+    }
+  }
+
+  const method = input.tokenEndpointAuthMethod ?? "none";
+  if (method !== "none" && method !== "client_secret_post") {
+    throw new OAuthError("invalid_client_metadata", `Unsupported token_endpoint_auth_method ${method}`);
+  }
+
+  const clientSecret = method === "client_secret_post" ? randomToken("mcp_cs_") : undefined;
+  const client: OAuthClient = {
+    clientId: crypto.randomUUID(),
+    clientName: input.clientName,
+    redirectUris: input.redirectUris,
+    tokenEndpointAuthMethod: method,
+    clientSecretHash: clientSecret ? await sha256Hex(clientSecret) : undefined,
+    createdAt: new Date().toISOString(),
+  };
+  await env.KV.put(`${CLIENT_PREFIX}${client.clientId}`, JSON.stringify(client));
+  return { client, clientSecret };
+};
+
+export const getClient = async (env: Env, clientId: string): Promise<OAuthClient | null> =>
+  env.KV.get<OAuthClient>(`${CLIENT_PREFIX}${clientId}`, { type: "json" });
+
+export const issueAuthorizationCode = async (env: Env, code: AuthorizationCode): Promise<string> => {
+  const value = randomToken("");
+  await env.KV.put(`${CODE_PREFIX}${await sha256Hex(value)}`, JSON.stringify(code), {
+    expirationTtl: CODE_TTL_SECONDS,
+  });
+  return value;
+};
+
+const authenticateClient = async (env: Env, clientId: string | undefined, clientSecret: string | undefined) => {
+  if (!clientId) {
+    throw new OAuthError("invalid_client", "client_id is required", 401);
+  }
+  const client = await getClient(env, clientId);
+  if (!client) {
+    throw new OAuthError("invalid_client", "Unknown client", 401);
+  }
+  if (client.tokenEndpointAuthMethod === "client_secret_post") {
+    if (!clientSecret || (await sha256Hex(clientSecret)) !== client.clientSecretHash) {
+      throw new OAuthError("invalid_client", "Client authentication failed", 401);
+    }
+  }
+  return client;
+};
+
+const issueTokens = async (env: Env, clientId: string, principal: Principal): Promise<TokenResponse> => {
+  const accessToken = randomToken(ACCESS_TOKEN_PREFIX);
+  const refreshToken = randomToken(REFRESH_TOKEN_PREFIX);
+  const now = Date.now();
+
+  const access: TokenRecord = { clientId, principal, expiresAt: now + ACCESS_TTL_SECONDS * 1000 };
+  const refresh: TokenRecord = { clientId, principal, expiresAt: now + REFRESH_TTL_SECONDS * 1000 };
+  await env.KV.put(`${ACCESS_PREFIX}${await sha256Hex(accessToken)}`, JSON.stringify(access), {
+    expirationTtl: ACCESS_TTL_SECONDS,
+  });
+  await env.KV.put(`${REFRESH_PREFIX}${await sha256Hex(refreshToken)}`, JSON.stringify(refresh), {
+    expirationTtl: REFRESH_TTL_SECONDS,
+  });
+
+  return {
+    access_token: accessToken,
+    token_type: "Bearer",
+    expires_in: ACCESS_TTL_SECONDS,
+    refresh_token: refreshToken,
+    scope: principal.scopes.join(" "),
+  };
+};
+
+export const exchangeAuthorizationCode = async (
+  env: Env,
+  params: { code?: string; redirectUri?: string; clientId?: string; clientSecret?: string; codeVerifier?: string },
+): Promise<TokenResponse> => {
+  const client = await authenticateClient(env, params.clientId, params.clientSecret);
+  if (!params.code || !params.codeVerifier) {
+    throw new OAuthError("invalid_request", "code and code_verifier are required");
+  }
+
+  const key = `${CODE_PREFIX}${await sha256Hex(params.code)}`;
+  const stored = await env.KV.get<AuthorizationCode>(key, { type: "json" });
+  if (!stored) {
+    throw new OAuthError("invalid_grant", "Authorization code is invalid or expired");
+  }
+  await env.KV.delete(key);
+
+  if (stored.clientId !== client.clientId || stored.redirectUri !== params.redirectUri) {
+    throw new OAuthError("invalid_grant", "Authorization code was issued to another client or redirect_uri");
+  }
+  if ((await sha256Base64Url(params.codeVerifier)) !== stored.codeChallenge) {
+    throw new OAuthError("invalid_grant", "PKCE verification failed");
+  }
+
+  return issueTokens(env, client.clientId, stored.principal);
+};
+
+export const refreshAccessToken = async (
+  env: Env,
+  params: { refreshToken?: string; clientId?: string; clientSecret?: string },
+): Promise<TokenResponse> => {
+  const client = await authenticateClient(env, params.clientId, params.clientSecret);
+  if (!params.refreshToken) {
+    throw new OAuthError("invalid_request", "refresh_token is required");
+  }
+
+  const key = `${REFRESH_PREFIX}${await sha256Hex(params.refreshToken)}`;
+  const stored = await env.KV.get<TokenRecord>(key, { type: "json" });
+  if (!stored || stored.expiresAt <= Date.now() || stored.clientId !== client.clientId) {
+    throw new OAuthError("invalid_grant", "Refresh token is invalid or expired");
+  }
+  await env.KV.delete(key);
+
+  return issueTokens(env, client.clientId, stored.principal);
+};
+
+export const verifyAccessToken = async (env: Env, token: string): Promise<Principal | null> => {
+  if (!token.startsWith(ACCESS_TOKEN_PREFIX)) {
+    return null;
+  }
+  const stored = await env.KV.get<TokenRecord>(`${ACCESS_PREFIX}${await sha256Hex(token)}`, { type: "json" });
+  if (!stored || stored.expiresAt <= Date.now()) {
+    return null;
+  }
+  const key = await getApiKey(env, stored.principal.id.replace(/^key:/, ""));
+  if (!key) {
+    return null;
+  }
+  return {
+    ...stored.principal,
+    policy: key.policy,
+    d1ReadOnly: key.d1ReadOnly,
+    kind: "oauth",
+    clientId: stored.clientId,
+  };
+};
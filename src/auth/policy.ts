@@ -0,0 +1,119 @@
+import { z } from "zod";
+
+const argumentConstraintSchema = z.object({
+  arg: z.string(),
+  required: z.boolean().optional(),
+  equals: z.any().optional(),
+  oneOf: z.array(z.any()).optional(),
+  prefix: z.string().optional(),
+  pattern: z.string().optional(),
+  when: z.record(z.array(z.any())).optional(),
+});
+
+const toolRuleSchema = z.object({
+  tools: z.array(z.string()).min(1),
+  effect: z.enum(["allow", "deny"]),
+  when: z.record(z.array(z.any())).optional(),
+  constraints: z.array(argumentConstraintSchema).optional(),
+});
+
+export const toolPolicySchema = z.object({
+  default: z.enum(["allow", "deny"]).optional(),
+  rules: z.array(toolRuleSchema),
+});
+
+export type ArgumentConstraint = z.infer<typeof argumentConstraintSchema>;
+export type ToolRule = z.infer<typeof toolRuleSchema>;
+export type ToolPolicy = z.infer<typeof toolPolicySchema>;
+
+export class ToolPermissionError extends Error {
+  constructor(readonly tool: string, reason: string) {
+    super(`Permission denied for tool ${tool}: ${reason}`);
+  }
+}
+
+const matchesTool = (pattern: string, tool: string): boolean => {
+  if (pattern === "*") return true;
+  if (pattern.endsWith("*")) return tool.startsWith(pattern.slice(0, -1));
+  return pattern === tool;
+};
+
+const readArg = (args: Record<string, unknown>, path: string): unknown =>
+  path.split(".").reduce<unknown>(
+    (value, key) => (value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined),
+    args,
+  );
+
+const matchesWhen = (when: Record<string, unknown[]> | undefined, args: Record<string, unknown>): boolean =>
+  !when || Object.entries(when).every(([path, values]) => values.includes(readArg(args, path)));
+
+const violation = (constraint: ArgumentConstraint, args: Record<string, unknown>): string | null => {
+  if (!matchesWhen(constraint.when, args)) {
+    return null;
+  }
+  const value = readArg(args, constraint.arg);
+  if (typeof value === "undefined") {
+    return constraint.required ? `argument ${constraint.arg} is required` : null;
+  }
+  if (typeof constraint.equals !== "undefined" && value !== constraint.equals) {
+    return `argument ${constraint.arg} must equal ${JSON.stringify(constraint.equals)}`;
+  }
+  if (constraint.oneOf && !constraint.oneOf.includes(value)) {
+    return `argument ${constraint.arg} must be one of ${JSON.stringify(constraint.oneOf)}`;
+  }
+  if (typeof constraint.prefix !== "undefined" && !(typeof value === "string" && value.startsWith(constraint.prefix))) {
+    return `argument ${constraint.arg} must start with "${constraint.prefix}"`;
+  }
+  if (constraint.pattern && !(typeof value === "string" && new RegExp(constraint.pattern).test(value))) {
+    return `argument ${constraint.arg} must match /${constraint.pattern}/`;
+  }
+  return null;
+};
+
+export const isToolVisible = (policy: ToolPolicy | undefined, tool: string): boolean => {
+  if (!policy) return true;
+  for (const rule of policy.rules) {
+    if (!rule.tools.some(pattern => matchesTool(pattern, tool))) continue;
+    if (rule.effect === "allow") return true;
+    if (!rule.when) return false;
+  }
+  return (policy.default ?? "deny") === "allow";
+};
+
+export const assertToolCallAllowed = (
+  policy: ToolPolicy | undefined,
+  tool: string,
+  args: Record<string, unknown>,
+): void => {
+  if (!policy) return;
+  for (const rule of policy.rules) {
+    if (!rule.tools.some(pattern => matchesTool(pattern, tool)) || !matchesWhen(rule.when, args)) continue;
+    if (rule.effect === "deny") {
+      throw new ToolPermissionError(tool, "denied by policy");
+    }
+    for (const constraint of rule.constraints ?? []) {
+      const reason = violation(constraint, args);
+      if (reason) {
+        throw new ToolPermissionError(tool, reason);
+      }
+    }
+    return;
+  }
+  if ((policy.default ?? "deny") !== "allow") {
+    throw new ToolPermissionError(tool, "not allowed by policy");
+  }
+};
+
+// Auth state and crawler page bodies live in the same KV namespace as the kv
+// tools, so keys under these prefixes are never readable or writable through them.
+export const RESERVED_KV_PREFIXES = ["auth:", "oauth:", "crawl/"];
+
+export const isReservedKvKey = (key: string): boolean =>
+  RESERVED_KV_PREFIXES.some(prefix => key.startsWith(prefix));
+
+export const assertKvKeysAllowed = (tool: string, keys: string[]): void => {
+  const reserved = keys.filter(isReservedKvKey);
+  if (reserved.length) {
+    throw new ToolPermissionError(tool, `keys ${reserved.join(", ")} use a reserved prefix`);
+  }
+};
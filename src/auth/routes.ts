@@ -0,0 +1,307 @@
+import { Hono } from "hono";
+import type { AppBindings, Principal } from "../types";
+import { z } from "zod";
+import {
+  createApiKey,
+  listApiKeys,
+  principalFromApiKey,
+  revokeApiKey,
+  updateApiKey,
+  verifyApiKey,
+} from "./api-keys";
+import { requireAdmin } from "./index";
+import { toolPolicySchema } from "./policy";
+import {
+  OAuthError,
+  exchangeAuthorizationCode,
+  getClient,
+  issueAuthorizationCode,
+  refreshAccessToken,
+  registerClient,
+} from "./oauth";
+
+const SCOPES_SUPPORTED = ["mcp"];
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+type AuthorizeParams = {
+  responseType: string;
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  codeChallengeMethod: string;
+  state?: string;
+  scope?: string;
+};
+
+const readAuthorizeParams = (source: Record<string, string | undefined>): AuthorizeParams => ({
+  responseType: source.response_type ?? "",
+  clientId: source.client_id ?? "",
+  redirectUri: source.redirect_uri ?? "",
+  codeChallenge: source.code_challenge ?? "",
+  codeChallengeMethod: source.code_challenge_method ?? "",
+  state: source.state || undefined,
+  scope: source.scope || undefined,
+});
+
+const consentPage = (params: AuthorizeParams, clientName: string, error?: string): string => {
+  const hidden = Object.entries({
+    response_type: params.responseType,
+    client_id: params.clientId,
+    redirect_uri: params.redirectUri,
+    code_challenge: params.codeChallenge,
+    code_challenge_method: params.codeChallengeMethod,
+    state: params.state ?? "",
+    scope: params.scope ?? "",
+  })
+    .map(([name, value]) => `<input type="hidden" name="${name}" value="${escapeHtml(value)}" />`)
+    .join("\n      ");
+
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>Authorize ${escapeHtml(clientName)}</title>
+  </head>
+  <body>
+    <h1>Authorize ${escapeHtml(clientName)}</h1>
+    <p>Enter an API key to grant this client access to the MCP server.</p>
+    ${error ? `<p role="alert">${escapeHtml(error)}</p>` : ""}
+    <form method="post">
+      ${hidden}
+      <input type="password" name="api_key" placeholder="mcp_sk_..." required />
+      <button type="submit">Authorize</button>
+    </form>
+  </body>
+</html>`;
+};
+
+const oauthErrorBody = (error: unknown) =>
+  error instanceof OAuthError
+    ? { error: error.code, error_description: error.message }
+    : { error: "server_error", error_description: error instanceof Error ? error.message : String(error) };
+
+const oauthErrorStatus = (error: unknown) => (error instanceof OAuthError ? error.status : 500) as 400 | 401 | 500;
+
+export const oauthRoutes = new Hono<AppBindings>();
+
+oauthRoutes.get("/.well-known/oauth-protected-resource", c => {
+  const origin = new URL(c.req.url).origin;
+  return c.json({
+    resource: `${origin}/mcp`,
+    authorization_servers: [origin],
+    scopes_supported: SCOPES_SUPPORTED,
+    bearer_methods_supported: ["header"],
+  });
+});
+
+oauthRoutes.get("/.well-known/oauth-authorization-server", c => {
+  const origin = new URL(c.req.url).origin;
+  return c.json({
+    issuer: origin,
+    authorization_endpoint: `${origin}/oauth/authorize`,
+    token_endpoint: `${origin}/oauth/token`,
+    registration_endpoint: `${origin}/oauth/register`,
+    scopes_supported: SCOPES_SUPPORTED,
+    response_types_supported: ["code"],
+    grant_types_supported: ["authorization_code", "refresh_token"],
+    token_endpoint_auth_methods_supported: ["none", "client_secret_post"],
+    code_challenge_methods_supported: ["S256"],
+  });
+});
+
+oauthRoutes.post("/oauth/register", async c => {
+  let body: { redirect_uris?: unknown; client_name?: string; token_endpoint_auth_method?: string };
+  try {
+    body = await c.req.json();
+  } catch (error) {
+    return c.json({ error: "invalid_client_metadata", error_description: "Body must be JSON" }, 400);
+  }
+
+  try {
+    const redirectUris = Array.isArray(body.redirect_uris) ? body.redirect_uris.map(String) : [];
+    const { client, clientSecret } = await registerClient(c.env, {
+      redirectUris,
+      clientName: body.client_name,
+      tokenEndpointAuthMethod: body.token_endpoint_auth_method,
+    });
+    return c.json(
+      {
+        client_id: client.clientId,
+        client_id_issued_at: Math.floor(Date.parse(client.createdAt) / 1000),
+        client_name: client.clientName,
+        redirect_uris: client.redirectUris,
+        token_endpoint_auth_method: client.tokenEndpointAuthMethod,
+        grant_types: ["authorization_code", "refresh_token"],
+        response_types: ["code"],
+        ...(clientSecret ? { client_secret: clientSecret, client_secret_expires_at: 0 } : {}),
+      },
+      201,
+    );
+  } catch (error) {
+    return c.json(oauthErrorBody(error), oauthErrorStatus(error));
+  }
+});
+
+const validateAuthorizeRequest = async (c: { env: AppBindings["Bindings"] }, params: AuthorizeParams) => {
+  const client = params.clientId ? await getClient(c.env, params.clientId) : null;
+  if (!client) {
+    throw new OAuthError("invalid_client", "Unknown client_id");
+  }
+  if (!client.redirectUris.includes(params.redirectUri)) {
+    throw new OAuthError("invalid_request", "redirect_uri is not registered for this client");
+  }
+  if (params.responseType !== "code") {
+    throw new OAuthError("unsupported_response_type", "Only response_type=code is supported");
+  }
+  if (!params.codeChallenge || params.codeChallengeMethod !== "S256") {
+    throw new OAuthError("invalid_request", "PKCE with code_challenge_method=S256 is required");
+  }
+  return client;
+};
+
+oauthRoutes.get("/oauth/authorize", async c => {
+  const params = readAuthorizeParams(c.req.query());
+  try {
+    const client = await validateAuthorizeRequest(c, params);
+    return c.html(consentPage(params, client.clientName ?? client.clientId));
+  } catch (error) {
+    return c.json(oauthErrorBody(error), oauthErrorStatus(error));
+  }
+});
+
+oauthRoutes.post("/oauth/authorize", async c => {
+  const form = (await c.req.parseBody()) as Record<string, string | undefined>;
+  const params = readAuthorizeParams(form);
+  let client;
+  try {
+    client = await validateAuthorizeRequest(c, params);
+  } catch (error) {
+    return c.json(oauthErrorBody(error), oauthErrorStatus(error));
+  }
+
+  const record = form.api_key ? await verifyApiKey(c.env, form.api_key) : null;
+  if (!record) {
+    return c.html(consentPage(params, client.clientName ?? client.clientId, "Invalid API key"), 401);
+  }
+
+  const keyPrincipal = principalFromApiKey(record);
+  const requested = params.scope?.split(/\s+/).filter(Boolean) ?? [];
+  const scopes = requested.length
+    ? requested.filter(scope => keyPrincipal.scopes.includes(scope) || keyPrincipal.scopes.includes("*"))
+    : keyPrincipal.scopes;
+  const principal: Principal = { ...keyPrincipal, scopes };
+
+  const code = await issueAuthorizationCode(c.env, {
+    clientId: client.clientId,
+    redirectUri: params.redirectUri,
+    codeChallenge: params.codeChallenge,
+    principal,
+  });
+
+  const redirect = new URL(params.redirectUri);
+  redirect.searchParams.set("code", code);
+  if (params.state) {
+    redirect.searchParams.set("state", params.state);
+  }
+  return c.redirect(redirect.toString(), 302);
+});
+
+oauthRoutes.post("/oauth/token", async c => {
+  const form = (await c.req.parseBody()) as Record<string, string | undefined>;
+  try {
+    switch (form.grant_type) {
+      case "authorization_code":
+        return c.json(
+          await exchangeAuthorizationCode(c.env, {
+            code: form.code,
+            redirectUri: form.redirect_uri,
+            clientId: form.client_id,
+            clientSecret: form.client_secret,
+            codeVerifier: form.code_verifier,
+          }),
+          200,
+          { "cache-control": "no-store" },
+        );
+      case "refresh_token":
+        return c.json(
+          await refreshAccessToken(c.env, {
+            refreshToken: form.refresh_token,
+            clientId: form.client_id,
+            clientSecret: form.client_secret,
+          }),
+          200,
+          { "cache-control": "no-store" },
+        );
+      default:
+        throw new OAuthError("unsupported_grant_type", `Unsupported grant_type ${form.grant_type ?? ""}`);
+    }
+  } catch (error) {
+    return c.json(oauthErrorBody(error), oauthErrorStatus(error));
+  }
+});
+
+const apiKeyInputSchema = z.object({
+  name: z.string().min(1).optional(),
+  scopes: z.array(z.string()).optional(),
+  policy: toolPolicySchema.nullable().optional(),
+  d1ReadOnly: z.boolean().nullable().optional(),
+});
+
+export const adminRoutes = new Hono<AppBindings>();
+
+adminRoutes.use("*", requireAdmin);
+
+adminRoutes.get("/api-keys", async c => c.json({ keys: await listApiKeys(c.env) }));
+
+const readApiKeyInput = async (request: Request) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    throw new Error(`Invalid JSON body: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return apiKeyInputSchema.parseAsync(body);
+};
+
+adminRoutes.post("/api-keys", async c => {
+  let body: z.infer<typeof apiKeyInputSchema>;
+  try {
+    body = await readApiKeyInput(c.req.raw);
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 400);
+  }
+  if (!body.name) {
+    return c.json({ error: "name is required" }, 400);
+  }
+  const { key, record } = await createApiKey(c.env, {
+    name: body.name,
+    scopes: body.scopes,
+    policy: body.policy ?? undefined,
+    d1ReadOnly: body.d1ReadOnly ?? undefined,
+  });
+  return c.json({ key, ...record }, 201);
+});
+
+adminRoutes.put("/api-keys/:id", async c => {
+  let body: z.infer<typeof apiKeyInputSchema>;
+  try {
+    body = await readApiKeyInput(c.req.raw);
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 400);
+  }
+  const record = await updateApiKey(c.env, c.req.param("id"), body);
+  if (!record) {
+    return c.json({ error: "Not found" }, 404);
+  }
+  return c.json(record);
+});
+
+adminRoutes.delete("/api-keys/:id", async c => {
+  const revoked = await revokeApiKey(c.env, c.req.param("id"));
+  if (!revoked) {
+    return c.json({ error: "Not found" }, 404);
+  }
+  return c.body(null, 204);
+});
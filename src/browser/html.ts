@@ -0,0 +1,250 @@
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  mdash: "—",
+  ndash: "–",
+  hellip: "…",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“",
+  copy: "©",
+};
+
+const VOID_ELEMENTS = new Set(["area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr"]);
+
+const NOISE_ELEMENTS = ["script", "style", "noscript", "template", "svg", "iframe", "nav", "header", "footer", "aside", "form"];
+
+const BLOCK_ELEMENTS =
+  /<\/?(p|div|section|article|main|h[1-6]|li|ul|ol|table|tr|td|th|blockquote|pre|br|hr|dd|dt|figcaption)\b[^>]*>/gi;
+
+export type PageLink = {
+  url: string;
+  text: string;
+};
+
+export const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? Number.parseInt(entity.slice(2), 16) : Number.parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+const attribute = (attributes: string, name: string): string | undefined => {
+  const match = new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i").exec(attributes);
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3] ?? "") : undefined;
+};
+
+const absoluteUrl = (href: string, baseUrl: string): string | undefined => {
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return undefined;
+  }
+};
+
+/** Inner HTML of the first matching element, if the page has one. */
+const firstElement = (html: string, tag: string): string | undefined =>
+  new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, "i").exec(html)?.[1];
+
+const stripNoise = (html: string): string => {
+  let body = html.replace(/<!--[\s\S]*?-->/g, "");
+  for (const tag of NOISE_ELEMENTS) {
+    body = body.replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?</${tag}>`, "gi"), " ");
+  }
+  return body;
+};
+
+/** The <article>, <main> or <body> of a page with scripts, styles and page chrome removed. */
+const readableRegion = (html: string): string => {
+  const body = stripNoise(html);
+  return firstElement(body, "article") ?? firstElement(body, "main") ?? firstElement(body, "body") ?? body;
+};
+
+export const pageTitle = (html: string): string | undefined => {
+  const title = firstElement(html, "title");
+  return title ? decodeEntities(title).replace(/\s+/g, " ").trim() || undefined : undefined;
+};
+
+type SimpleSelector = { tag?: string; id?: string; classes: string[] };
+
+const parseSelector = (selector: string): SimpleSelector => {
+  const match = /^([a-zA-Z][\w-]*|\*)?((?:[.#][\w-]+)*)$/.exec(selector);
+  if (!match) {
+    throw new Error(`Unsupported selector "${selector}"; use tag, #id and .class parts separated by spaces.`);
+  }
+  const parts = match[2].match(/[.#][\w-]+/g) ?? [];
+  return {
+    tag: match[1] && match[1] !== "*" ? match[1].toLowerCase() : undefined,
+    id: parts.find(part => part.startsWith("#"))?.slice(1),
+    classes: parts.filter(part => part.startsWith(".")).map(part => part.slice(1)),
+  };
+};
+
+const matchesSelector = (tag: string, attributes: string, selector: SimpleSelector): boolean => {
+  if (selector.tag && selector.tag !== tag) return false;
+  if (selector.id && attribute(attributes, "id") !== selector.id) return false;
+  if (selector.classes.length) {
+    const classes = new Set((attribute(attributes, "class") ?? "").split(/\s+/));
+    if (!selector.classes.every(name => classes.has(name))) return false;
+  }
+  return true;
+};
+
+/** End offset of the element opened at `start`, counting nested tags of the same name. */
+const elementEnd = (html: string, tag: string, openEnd: number): number => {
+  const pattern = new RegExp(`<(/?)${tag}\\b[^>]*>`, "gi");
+  pattern.lastIndex = openEnd;
+  let depth = 1;
+  for (let match = pattern.exec(html); match; match = pattern.exec(html)) {
+    depth += match[1] ? -1 : match[0].endsWith("/>") ? 0 : 1;
+    if (depth === 0) {
+      return match.index + match[0].length;
+    }
+  }
+  return html.length;
+};
+
+const selectSimple = (html: string, selector: SimpleSelector): string[] => {
+  const results: string[] = [];
+  const pattern = /<([a-zA-Z][\w-]*)([^>]*)>/g;
+  for (let match = pattern.exec(html); match; match = pattern.exec(html)) {
+    const tag = match[1].toLowerCase();
+    if (!matchesSelector(tag, match[2], selector)) {
+      continue;
+    }
+    const openEnd = match.index + match[0].length;
+    const end = VOID_ELEMENTS.has(tag) || match[0].endsWith("/>") ? openEnd : elementEnd(html, tag, openEnd);
+    results.push(html.slice(match.index, end));
+    pattern.lastIndex = end;
+  }
+  return results;
+};
+
+/**
+ * Outer HTML of every element matching a descendant selector made of tag, #id
+ * and .class parts, e.g. `article .content p`. Matches do not overlap.
+ */
+export const selectHtml = (html: string, selector: string): string[] =>
+  selector
+    .trim()
+    .split(/\s+/)
+    .map(parseSelector)
+    .reduce<string[]>(
+      (scopes, part, index) =>
+        scopes.flatMap(scope => {
+          if (index === 0) return selectSimple(scope, part);
+          const inner = scope.replace(/^<[^>]*>/, "");
+          return selectSimple(inner, part);
+        }),
+      [stripNoise(html).replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, "")],
+    );
+
+/**
+ * Reduces a page to its readable text: drops scripts, styles and page chrome,
+ * prefers the <article> or <main> element, and keeps paragraph breaks so the
+ * chunker can split on them.
+ */
+export const extractReadableText = (html: string): { title?: string; text: string } => ({
+  title: pageTitle(html),
+  text: htmlToText(readableRegion(html)),
+});
+
+/** Plain text with paragraph breaks; the HTML is used as given. */
+export const htmlToText = (html: string): string =>
+  decodeEntities(html.replace(BLOCK_ELEMENTS, "\n\n").replace(/<[^>]+>/g, ""))
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n\n");
+
+/** Every distinct http(s) link, resolved against the page URL, with its anchor text. */
+export const extractLinks = (html: string, baseUrl: string): PageLink[] => {
+  const links = new Map<string, PageLink>();
+  for (const match of stripNoise(html.replace(/<(nav|header|footer|aside)\b/gi, "<div")).matchAll(
+    /<a\b([^>]*)>([\s\S]*?)<\/a>/gi,
+  )) {
+    const href = attribute(match[1], "href");
+    const url = href ? absoluteUrl(href, baseUrl) : undefined;
+    if (!url || !/^https?:/i.test(url)) {
+      continue;
+    }
+    const text = htmlToText(match[2]).replace(/\s+/g, " ");
+    const existing = links.get(url);
+    if (!existing || (!existing.text && text)) {
+      links.set(url, { url, text });
+    }
+  }
+  return [...links.values()];
+};
+
+const inlineMarkdown = (html: string, baseUrl: string): string =>
+  html
+    .replace(/<img\b([^>]*)>/gi, (_, attributes: string) => {
+      const src = attribute(attributes, "src");
+      const url = src ? absoluteUrl(src, baseUrl) : undefined;
+      return url ? `![${attribute(attributes, "alt") ?? ""}](${url})` : "";
+    })
+    .replace(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi, (_, attributes: string, inner: string) => {
+      const href = attribute(attributes, "href");
+      const url = href ? absoluteUrl(href, baseUrl) : undefined;
+      const text = inner.replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim();
+      return url && /^https?:/i.test(url) ? `[${text || url}](${url})` : text;
+    })
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, _tag, inner: string) => (inner.trim() ? `**${inner.trim()}**` : ""))
+    .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, _tag, inner: string) => (inner.trim() ? `_${inner.trim()}_` : ""))
+    .replace(/<code\b[^>]*>([\s\S]*?)<\/code>/gi, (_, inner: string) => `\`${inner.replace(/<[^>]+>/g, "")}\``);
+
+/**
+ * Converts the readable region of a page (or a selected fragment when
+ * `fragment` is set) to Markdown: headings, paragraphs, lists, links, images,
+ * emphasis, inline code and fenced <pre> blocks.
+ */
+export const htmlToMarkdown = (html: string, baseUrl: string, options: { fragment?: boolean } = {}): string => {
+  const blocks: string[] = [];
+  const protect = (text: string): string => `\u0000${blocks.push(text) - 1}\u0000`;
+
+  let body = options.fragment ? stripNoise(html) : readableRegion(html);
+  body = body.replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (_, inner: string) =>
+    `\n\n${protect(`\`\`\`\n${decodeEntities(inner.replace(/<[^>]+>/g, "")).replace(/\n+$/, "")}\n\`\`\``)}\n\n`,
+  );
+  body = inlineMarkdown(body, baseUrl)
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, inner: string) =>
+      `\n\n${"#".repeat(Number(level))} ${inner.replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim()}\n\n`,
+    )
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/li>/gi, "")
+    .replace(/<blockquote\b[^>]*>([\s\S]*?)<\/blockquote>/gi, (_, inner: string) =>
+      `\n\n${htmlToText(inner)
+        .split("\n")
+        .map(line => `> ${line}`)
+        .join("\n")}\n\n`,
+    )
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<hr\b[^>]*>/gi, "\n\n---\n\n")
+    .replace(BLOCK_ELEMENTS, "\n\n")
+    .replace(/<[^>]+>/g, "");
+
+  return decodeEntities(body)
+    .split("\n")
+    .map(line => line.replace(/[ \t\r\f\v]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .replace(/\u0000(\d+)\u0000/g, (_, index: string) => blocks[Number(index)])
+    .trim();
+};
+
+/** Cuts text at `maxChars`, preferring the last line break in the final tenth. */
+export const truncateText = (text: string, maxChars: number): { text: string; truncated: boolean } => {
+  if (text.length <= maxChars) {
+    return { text, truncated: false };
+  }
+  const cut = text.lastIndexOf("\n", maxChars);
+  return { text: text.slice(0, cut > maxChars * 0.9 ? cut : maxChars), truncated: true };
+};
@@ -0,0 +1,108 @@
+import {
+  assertEgressAllowed,
+  assertHeadersAllowed,
+  egressFetch,
+  egressPolicy,
+  type EgressPolicy,
+} from "../egress/policy";
+import { base64ToBytes } from "../encoding";
+import type { Env } from "../types";
+
+export const DEFAULT_BROWSER_ENDPOINT = "https://browser.render.cloudflare.com/render";
+
+export type RenderOptions = {
+  endpoint?: string;
+  waitFor?: number;
+  script?: string;
+  headers?: Record<string, string>;
+};
+
+export type RenderedPage = {
+  url: string;
+  html: string;
+};
+
+export type RenderedFile = {
+  mimeType: string;
+  bytes: Uint8Array;
+};
+
+/**
+ * The egress policy for a render call. The default render endpoint belongs to
+ * the BROWSER binding, so an allowlist does not need to name it.
+ */
+export const browserEgressPolicy = (env: Env, endpoint: string): EgressPolicy => {
+  const policy = egressPolicy(env);
+  const defaultHost = new URL(DEFAULT_BROWSER_ENDPOINT).hostname;
+  return endpoint === DEFAULT_BROWSER_ENDPOINT && policy.allowHosts.length
+    ? { ...policy, allowHosts: [...policy.allowHosts, defaultHost] }
+    : policy;
+};
+
+const render = async (env: Env, url: string, options: RenderOptions, extra: Record<string, unknown> = {}) => {
+  const endpoint = options.endpoint ?? DEFAULT_BROWSER_ENDPOINT;
+  const policy = browserEgressPolicy(env, endpoint);
+  assertEgressAllowed(egressPolicy(env), url);
+  assertHeadersAllowed(options.headers);
+  const response = await egressFetch(
+    policy,
+    endpoint,
+    {
+      method: "POST",
+      headers: { "content-type": "application/json", ...(options.headers ?? {}) },
+      body: JSON.stringify({ url, waitFor: options.waitFor, script: options.script, ...extra }),
+    },
+    { fetcher: env.BROWSER, timeoutMs: policy.timeoutMs + (options.waitFor ?? 0) },
+  );
+  if (!response.ok) {
+    throw new Error(`Rendering ${url} failed with ${response.status}: ${(await response.text()).slice(0, 500)}`);
+  }
+  return response;
+};
+
+/**
+ * Renders a page through the BROWSER binding and returns its HTML. The render
+ * endpoint answers with either raw HTML or JSON carrying `html` or `content`.
+ */
+export const renderPageHtml = async (env: Env, url: string, options: RenderOptions = {}): Promise<RenderedPage> => {
+  const body = await (await render(env, url, options)).text();
+  try {
+    const parsed = JSON.parse(body) as Record<string, unknown>;
+    const html = parsed.html ?? parsed.content ?? parsed.result;
+    if (typeof html === "string") {
+      return { url: typeof parsed.url === "string" ? parsed.url : url, html };
+    }
+  } catch {
+    // Not JSON: the endpoint returned the document itself.
+  }
+  return { url, html: body };
+};
+
+/**
+ * Renders a screenshot or PDF. The endpoint either streams the file or answers
+ * with JSON holding it as base64 (optionally a data: URL) under the kind's name.
+ */
+export const renderPageFile = async (
+  env: Env,
+  url: string,
+  kind: "screenshot" | "pdf",
+  options: RenderOptions = {},
+): Promise<RenderedFile> => {
+  const response = await render(env, url, options, { [kind]: true });
+  const contentType = response.headers.get("content-type")?.split(";")[0].trim().toLowerCase() ?? "";
+  if (contentType && contentType !== "application/json" && !contentType.startsWith("text/")) {
+    return { mimeType: contentType, bytes: new Uint8Array(await response.arrayBuffer()) };
+  }
+
+  const parsed = (await response.json()) as Record<string, unknown>;
+  const value = parsed[kind] ?? parsed.data ?? parsed.result;
+  if (typeof value !== "string" || !value) {
+    throw new Error(`The render endpoint did not return a ${kind} for ${url}.`);
+  }
+  const dataUrl = /^data:([^;,]+)(?:;[^,]*)?,(.*)$/s.exec(value);
+  const fallback = kind === "pdf" ? "application/pdf" : "image/png";
+  return {
+    mimeType: dataUrl?.[1] ?? (typeof parsed.mimeType === "string" ? parsed.mimeType : fallback),
+    bytes: base64ToBytes(dataUrl?.[2] ?? value),
+  };
+};
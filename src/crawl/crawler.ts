@@ -0,0 +1,333 @@
+import { sha256Hex } from "../auth/crypto";
+import { extractLinks, extractReadableText, htmlToMarkdown, pageTitle, truncateText } from "../browser/html";
+import { renderPageHtml } from "../browser/render";
+import { assertEgressAllowed, egressPolicy } from "../egress/policy";
+import type { ProgressReporter } from "../agents/mcp";
+import { LONG_TASK_BASE, longTaskStub, taskOwnerId } from "../durable/helpers";
+import type { Env, Principal } from "../types";
+import { fetchRobots, isAllowedByRobots } from "./robots";
+import {
+  createCrawlJob,
+  crawlContentKey,
+  crawlPageCounts,
+  enqueueCrawlPages,
+  getCrawlJob,
+  isCanonicalDone,
+  nextQueuedPage,
+  putCrawlContent,
+  skipQueuedPages,
+  updateCrawlJob,
+  updateCrawlPage,
+  type CrawlJob,
+  type CrawlOptions,
+  type CrawlPage,
+} from "./store";
+
+/** Extensions that are never HTML pages, so following them wastes a render. */
+const SKIPPED_EXTENSIONS =
+  /\.(png|jpe?g|gif|webp|svg|ico|pdf|zip|gz|tgz|tar|mp3|mp4|webm|mov|avi|woff2?|ttf|eot|css|js|json|xml|rss|atom|txt)$/i;
+
+const TRACKING_PARAMETERS = /^(utm_[a-z]+|gclid|fbclid|mc_cid|mc_eid|ref)$/i;
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/** Durable operation that runs one slice of a crawl; registered in ./operation. */
+export const CRAWL_SLICE_OPERATION = "crawl:slice";
+export const CRAWL_SLICE_MS = 2 * 60 * 1000;
+
+/**
+ * Normalizes a URL for deduplication: drops the fragment, default ports and
+ * tracking parameters, and sorts the query. Returns undefined for non-http URLs.
+ */
+export const normalizeUrl = (value: string, base?: string): string | undefined => {
+  let url: URL;
+  try {
+    url = new URL(value, base);
+  } catch {
+    return undefined;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return undefined;
+  }
+  url.hash = "";
+  url.hostname = url.hostname.toLowerCase();
+  if ((url.protocol === "http:" && url.port === "80") || (url.protocol === "https:" && url.port === "443")) {
+    url.port = "";
+  }
+  const params: Array<[string, string]> = [];
+  url.searchParams.forEach((value, key) => {
+    if (!TRACKING_PARAMETERS.test(key)) params.push([key, value]);
+  });
+  params.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  url.search = params.length ? `?${new URLSearchParams(params).toString()}` : "";
+  return url.toString();
+};
+
+/** The directory of the seed URL, e.g. `/docs/` for `/docs/intro`. */
+export const defaultPathPrefix = (seed: string): string => {
+  const path = new URL(seed).pathname;
+  return path.endsWith("/") ? path : path.slice(0, path.lastIndexOf("/") + 1);
+};
+
+export const isInScope = (url: string, seed: string, options: Pick<CrawlOptions, "scope" | "pathPrefix">): boolean => {
+  const target = new URL(url);
+  const origin = new URL(seed);
+  if (target.origin !== origin.origin) {
+    return false;
+  }
+  return options.scope === "origin" || target.pathname.startsWith(options.pathPrefix);
+};
+
+const canonicalLink = (html: string, pageUrl: string): string | undefined => {
+  for (const match of html.matchAll(/<link\b([^>]*)>/gi)) {
+    if (/\brel\s*=\s*["']?canonical\b/i.test(match[1])) {
+      const href = /\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i.exec(match[1]);
+      const value = href?.[1] ?? href?.[2] ?? href?.[3];
+      return value ? normalizeUrl(value, pageUrl) : undefined;
+    }
+  }
+  return undefined;
+};
+
+const pageContent = (html: string, url: string, format: CrawlOptions["format"]): string => {
+  switch (format) {
+    case "html":
+      return html;
+    case "text":
+      return extractReadableText(html).text;
+    default:
+      return htmlToMarkdown(html, url);
+  }
+};
+
+export const startCrawl = async (
+  env: Env,
+  seed: string,
+  options: CrawlOptions,
+  principal?: Principal,
+): Promise<CrawlJob> => {
+  const normalized = normalizeUrl(seed);
+  if (!normalized) {
+    throw new Error(`Cannot crawl ${seed}; only http(s) URLs are supported.`);
+  }
+  assertEgressAllowed(egressPolicy(env), normalized);
+  const now = new Date().toISOString();
+  const job: CrawlJob = {
+    id: crypto.randomUUID(),
+    owner: taskOwnerId(principal),
+    seed: normalized,
+    status: "queued",
+    options,
+    robots: options.respectRobots ? await fetchRobots(egressPolicy(env), new URL(normalized).origin) : null,
+    taskId: null,
+    error: null,
+    lastFetchAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await createCrawlJob(env.DB, job);
+  if (job.robots && !isAllowedByRobots(job.robots, new URL(normalized).pathname + new URL(normalized).search)) {
+    await updateCrawlPage(env.DB, job.id, normalized, { status: "blocked", error: "Disallowed by robots.txt" });
+    await updateCrawlJob(env.DB, job.id, { status: "completed" });
+    return { ...job, status: "completed" };
+  }
+  return job;
+};
+
+const crawlPage = async (env: Env, job: CrawlJob, page: CrawlPage): Promise<void> => {
+  const target = new URL(page.url);
+  if (job.robots && !isAllowedByRobots(job.robots, target.pathname + target.search)) {
+    await updateCrawlPage(env.DB, job.id, page.url, { status: "blocked", error: "Disallowed by robots.txt" });
+    return;
+  }
+
+  let html: string;
+  let finalUrl: string;
+  try {
+    const rendered = await renderPageHtml(env, page.url, { endpoint: job.options.endpoint, waitFor: job.options.waitFor });
+    html = rendered.html;
+    finalUrl = normalizeUrl(rendered.url) ?? page.url;
+  } catch (error) {
+    await updateCrawlPage(env.DB, job.id, page.url, {
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return;
+  }
+
+  const canonical = canonicalLink(html, finalUrl) ?? finalUrl;
+  if (canonical !== page.url && (await isCanonicalDone(env.DB, job.id, canonical))) {
+    await updateCrawlPage(env.DB, job.id, page.url, { status: "duplicate", canonicalUrl: canonical });
+    return;
+  }
+
+  const links =
+    page.depth < job.options.maxDepth
+      ? [
+          ...new Set(
+            extractLinks(html, finalUrl)
+              .map(link => normalizeUrl(link.url))
+              .filter((url): url is string => Boolean(url))
+              .filter(url => !SKIPPED_EXTENSIONS.test(new URL(url).pathname))
+              .filter(url => isInScope(url, job.seed, job.options)),
+          ),
+        ]
+      : [];
+
+  const content = truncateText(pageContent(html, finalUrl, job.options.format), job.options.maxChars).text;
+  const title = pageTitle(html) ?? null;
+  const contentKey = crawlContentKey(job.id, (await sha256Hex(canonical)).slice(0, 32));
+  await putCrawlContent(env.KV, contentKey, content, { url: page.url, canonicalUrl: canonical, title });
+  await updateCrawlPage(env.DB, job.id, page.url, {
+    status: "done",
+    canonicalUrl: canonical,
+    title,
+    contentKey,
+    chars: content.length,
+    links: links.length,
+  });
+  await enqueueCrawlPages(env.DB, job.id, links, page.depth + 1, job.options.maxPages);
+};
+
+export type CrawlSliceResult = {
+  job: CrawlJob;
+  finished: boolean;
+  crawled: number;
+};
+
+/**
+ * Crawls queued pages breadth-first until the queue is empty, the job is
+ * cancelled or `budgetMs` runs out. All state lives in D1, so an interrupted
+ * slice is picked up by the next one. The politeness delay is measured from
+ * the previous fetch, including one made by an earlier slice.
+ */
+export const runCrawlSlice = async (
+  env: Env,
+  crawlId: string,
+  budgetMs: number,
+  progress: ProgressReporter,
+  signal?: AbortSignal,
+): Promise<CrawlSliceResult> => {
+  const initial = await getCrawlJob(env.DB, crawlId);
+  if (!initial) {
+    throw new Error(`Crawl ${crawlId} not found.`);
+  }
+  if (initial.status !== "queued" && initial.status !== "running") {
+    return { job: initial, finished: true, crawled: 0 };
+  }
+  await updateCrawlJob(env.DB, crawlId, { status: "running" });
+
+  const delayMs = Math.max(initial.options.delayMs, initial.robots?.crawlDelayMs ?? 0);
+  const deadline = Date.now() + budgetMs;
+  let lastFetchAt = initial.lastFetchAt ?? 0;
+  let crawled = 0;
+
+  while (Date.now() < deadline && !signal?.aborted) {
+    const job = await getCrawlJob(env.DB, crawlId);
+    if (!job || job.status === "cancelled") {
+      return { job: job ?? initial, finished: true, crawled };
+    }
+    const counts = await crawlPageCounts(env.DB, crawlId);
+    const page = await nextQueuedPage(env.DB, crawlId);
+    if (!page) {
+      await updateCrawlJob(env.DB, crawlId, { status: "completed" });
+      return { job: { ...job, status: "completed" }, finished: true, crawled };
+    }
+
+    const wait = lastFetchAt + delayMs - Date.now();
+    if (wait > 0) {
+      if (Date.now() + wait >= deadline) {
+        break;
+      }
+      await sleep(wait);
+    }
+    lastFetchAt = Date.now();
+    await updateCrawlJob(env.DB, crawlId, { lastFetchAt });
+    await crawlPage(env, job, page);
+    crawled += 1;
+
+    const visited = counts.done + counts.failed + counts.blocked + counts.duplicate + 1;
+    await progress({
+      progress: visited,
+      total: Math.min(job.options.maxPages, visited + counts.queued),
+      message: `Crawled ${page.url}`,
+    });
+  }
+
+  const job = (await getCrawlJob(env.DB, crawlId)) ?? initial;
+  return { job, finished: false, crawled };
+};
+
+/** Queues the next slice of a crawl on the long-task Durable Object and records it on the job. */
+export const queueCrawlSlice = async (
+  env: Env,
+  job: CrawlJob,
+  principal?: Principal,
+  delayMs?: number,
+): Promise<{ id?: string; error?: string }> => {
+  const response = await longTaskStub(env).fetch(`${LONG_TASK_BASE}/task`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({
+      operation: CRAWL_SLICE_OPERATION,
+      data: { crawlId: job.id },
+      principal,
+      subscriber: job.options.subscriber,
+      delayMs,
+      timeoutMs: CRAWL_SLICE_MS + 60_000,
+    }),
+  });
+  const task = (await response.json()) as { id?: string; error?: string };
+  if (!response.ok || !task.id) {
+    return { error: task.error ?? `Failed to queue a slice of crawl ${job.id}.` };
+  }
+  await updateCrawlJob(env.DB, job.id, { taskId: task.id });
+  return task;
+};
+
+/**
+ * Runs one slice of a crawl and queues the next while pages remain. The slice
+ * operation can be started by any caller of durable_task, so a principal other
+ * than the crawl's owner is refused; calls without a principal are internal.
+ */
+export const runCrawlTask = async (
+  env: Env,
+  crawlId: string,
+  options: { principal?: Principal; progress: ProgressReporter; signal?: AbortSignal },
+) => {
+  const job = await getCrawlJob(env.DB, crawlId);
+  if (!job || (options.principal && job.owner !== taskOwnerId(options.principal))) {
+    throw new Error(`Crawl ${crawlId} not found.`);
+  }
+  const slice = await runCrawlSlice(env, crawlId, CRAWL_SLICE_MS, options.progress, options.signal);
+  let nextTaskId: string | undefined;
+  if (!slice.finished) {
+    const delayMs = Math.max(slice.job.options.delayMs, slice.job.robots?.crawlDelayMs ?? 0);
+    const task = await queueCrawlSlice(env, slice.job, options.principal, delayMs);
+    if (!task.id) {
+      throw new Error(task.error ?? "Failed to queue the next crawl slice.");
+    }
+    nextTaskId = task.id;
+  }
+  return {
+    crawlId,
+    status: slice.job.status,
+    crawled: slice.crawled,
+    nextTaskId,
+    pages: await crawlPageCounts(env.DB, crawlId),
+  };
+};
+
+/** Marks a crawl cancelled; the running slice stops before its next page. */
+export const cancelCrawl = async (env: Env, crawlId: string): Promise<CrawlJob | null> => {
+  const job = await getCrawlJob(env.DB, crawlId);
+  if (!job) {
+    return null;
+  }
+  if (job.status === "queued" || job.status === "running") {
+    await updateCrawlJob(env.DB, crawlId, { status: "cancelled" });
+    await skipQueuedPages(env.DB, crawlId, "Crawl cancelled");
+    return { ...job, status: "cancelled" };
+  }
+  return job;
+};
@@ -0,0 +1,10 @@
+import { registerOperation } from "../durable/operations";
+import { CRAWL_SLICE_OPERATION, runCrawlTask } from "./crawler";
+
+registerOperation(CRAWL_SLICE_OPERATION, async ({ data, env, principal, progress, signal }) => {
+  if (typeof data.crawlId !== "string") {
+    throw new Error("crawlId is required.");
+  }
+  const result = await runCrawlTask(env, data.crawlId, { principal, progress, signal });
+  return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+});
@@ -0,0 +1,90 @@
+import { egressFetch, type EgressPolicy } from "../egress/policy";
+
+export const CRAWLER_USER_AGENT = "colby-mcp-crawler";
+
+export type RobotsRules = {
+  rules: Array<{ allow: boolean; pattern: string }>;
+  crawlDelayMs?: number;
+};
+
+type Group = { agents: string[]; rules: RobotsRules["rules"]; crawlDelayMs?: number };
+
+/**
+ * Parses robots.txt and keeps the group that names our user agent, falling
+ * back to the `*` group. Unknown directives are ignored.
+ */
+export const parseRobots = (text: string, userAgent = CRAWLER_USER_AGENT): RobotsRules => {
+  const groups: Group[] = [];
+  let current: Group | undefined;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) {
+      continue;
+    }
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+    if (field === "user-agent") {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+    if (!current) {
+      continue;
+    }
+    if ((field === "allow" || field === "disallow") && value) {
+      current.rules.push({ allow: field === "allow", pattern: value });
+    } else if (field === "crawl-delay") {
+      const seconds = Number.parseFloat(value);
+      if (Number.isFinite(seconds) && seconds >= 0) {
+        current.crawlDelayMs = Math.round(seconds * 1000);
+      }
+    }
+  }
+
+  const agent = userAgent.toLowerCase();
+  const group =
+    groups.find(candidate => candidate.agents.some(name => name !== "*" && agent.includes(name))) ??
+    groups.find(candidate => candidate.agents.includes("*"));
+  return { rules: group?.rules ?? [], crawlDelayMs: group?.crawlDelayMs };
+};
+
+const patternMatches = (pattern: string, path: string): boolean => {
+  const anchored = pattern.endsWith("$");
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}${anchored ? "$" : ""}`).test(path);
+};
+
+/** The longest matching rule wins; Allow wins a tie. Paths include the query string. */
+export const isAllowedByRobots = (robots: RobotsRules, path: string): boolean => {
+  let best: { allow: boolean; length: number } | undefined;
+  for (const rule of robots.rules) {
+    if (!patternMatches(rule.pattern, path)) {
+      continue;
+    }
+    if (!best || rule.pattern.length > best.length || (rule.pattern.length === best.length && rule.allow)) {
+      best = { allow: rule.allow, length: rule.pattern.length };
+    }
+  }
+  return best?.allow ?? true;
+};
+
+/** Missing or unreadable robots.txt means everything is allowed. */
+export const fetchRobots = async (policy: EgressPolicy, origin: string): Promise<RobotsRules> => {
+  try {
+    const response = await egressFetch(policy, `${origin}/robots.txt`, { headers: { "user-agent": CRAWLER_USER_AGENT } });
+    return response.ok ? parseRobots(await response.text()) : { rules: [] };
+  } catch {
+    return { rules: [] };
+  }
+};
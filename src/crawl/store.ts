@@ -0,0 +1,349 @@
+import type { D1Database, KVNamespace } from "@cloudflare/workers-types";
+import type { TaskSubscriber } from "../types";
+import type { RobotsRules } from "./robots";
+
+const JOB_TABLE = "crawl_jobs";
+const PAGE_TABLE = "crawl_pages";
+const CONTENT_PREFIX = "crawl/";
+/** D1 allows 100 bound parameters per statement. */
+const LOOKUP_BATCH_SIZE = 90;
+
+export type CrawlStatus = "queued" | "running" | "completed" | "cancelled" | "failed";
+export type CrawlPageStatus = "queued" | "done" | "failed" | "blocked" | "duplicate" | "skipped";
+
+export type CrawlOptions = {
+  scope: "origin" | "prefix";
+  pathPrefix: string;
+  maxDepth: number;
+  maxPages: number;
+  delayMs: number;
+  respectRobots: boolean;
+  format: "markdown" | "text" | "html";
+  maxChars: number;
+  waitFor?: number;
+  endpoint?: string;
+  subscriber?: TaskSubscriber;
+};
+
+export type CrawlJob = {
+  id: string;
+  /** Principal id of whoever started the crawl; only they can read or cancel it. */
+  owner: string;
+  seed: string;
+  status: CrawlStatus;
+  options: CrawlOptions;
+  robots: RobotsRules | null;
+  taskId: string | null;
+  error: string | null;
+  lastFetchAt: number | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CrawlPage = {
+  url: string;
+  depth: number;
+  status: CrawlPageStatus;
+  canonicalUrl: string | null;
+  title: string | null;
+  contentKey: string | null;
+  chars: number | null;
+  links: number | null;
+  error: string | null;
+  fetchedAt: string | null;
+};
+
+type JobRow = {
+  id: string;
+  owner: string;
+  seed: string;
+  status: CrawlStatus;
+  options: string;
+  robots: string | null;
+  task_id: string | null;
+  error: string | null;
+  last_fetch_at: number | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type PageRow = {
+  url: string;
+  depth: number;
+  status: CrawlPageStatus;
+  canonical_url: string | null;
+  title: string | null;
+  content_key: string | null;
+  chars: number | null;
+  links: number | null;
+  error: string | null;
+  fetched_at: string | null;
+};
+
+export const ensureCrawlTables = async (db: D1Database): Promise<void> => {
+  await db.batch([
+    db.prepare(
+      `CREATE TABLE IF NOT EXISTS ${JOB_TABLE} (
+        id TEXT PRIMARY KEY,
+        owner TEXT NOT NULL,
+        seed TEXT NOT NULL,
+        status TEXT NOT NULL,
+        options TEXT NOT NULL,
+        robots TEXT,
+        task_id TEXT,
+        error TEXT,
+        last_fetch_at INTEGER,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+    ),
+    db.prepare(
+      `CREATE TABLE IF NOT EXISTS ${PAGE_TABLE} (
+        crawl_id TEXT NOT NULL,
+        url TEXT NOT NULL,
+        depth INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        canonical_url TEXT,
+        title TEXT,
+        content_key TEXT,
+        chars INTEGER,
+        links INTEGER,
+        error TEXT,
+        fetched_at TEXT,
+        PRIMARY KEY (crawl_id, url)
+      )`,
+    ),
+    db.prepare(`CREATE INDEX IF NOT EXISTS ${JOB_TABLE}_owner ON ${JOB_TABLE} (owner, created_at)`),
+    db.prepare(`CREATE INDEX IF NOT EXISTS ${PAGE_TABLE}_status ON ${PAGE_TABLE} (crawl_id, status, depth)`),
+  ]);
+};
+
+const jobFromRow = (row: JobRow): CrawlJob => ({
+  id: row.id,
+  owner: row.owner,
+  seed: row.seed,
+  status: row.status,
+  options: JSON.parse(row.options) as CrawlOptions,
+  robots: row.robots ? (JSON.parse(row.robots) as RobotsRules) : null,
+  taskId: row.task_id,
+  error: row.error,
+  lastFetchAt: row.last_fetch_at,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const pageFromRow = (row: PageRow): CrawlPage => ({
+  url: row.url,
+  depth: row.depth,
+  status: row.status,
+  canonicalUrl: row.canonical_url,
+  title: row.title,
+  contentKey: row.content_key,
+  chars: row.chars,
+  links: row.links,
+  error: row.error,
+  fetchedAt: row.fetched_at,
+});
+
+export const createCrawlJob = async (db: D1Database, job: CrawlJob): Promise<void> => {
+  await ensureCrawlTables(db);
+  await db.batch([
+    db
+      .prepare(
+        `INSERT INTO ${JOB_TABLE} (id, owner, seed, status, options, robots, task_id, error, last_fetch_at, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .bind(
+        job.id,
+        job.owner,
+        job.seed,
+        job.status,
+        JSON.stringify(job.options),
+        job.robots ? JSON.stringify(job.robots) : null,
+        job.taskId,
+        job.error,
+        job.lastFetchAt,
+        job.createdAt,
+        job.updatedAt,
+      ),
+    db.prepare(`INSERT INTO ${PAGE_TABLE} (crawl_id, url, depth, status) VALUES (?, ?, 0, 'queued')`).bind(job.id, job.seed),
+  ]);
+};
+
+export const getCrawlJob = async (db: D1Database, id: string): Promise<CrawlJob | null> => {
+  await ensureCrawlTables(db);
+  const row = await db.prepare(`SELECT * FROM ${JOB_TABLE} WHERE id = ?`).bind(id).first<JobRow>();
+  return row ? jobFromRow(row) : null;
+};
+
+export const listCrawlJobs = async (db: D1Database, owner: string, limit = 20): Promise<CrawlJob[]> => {
+  await ensureCrawlTables(db);
+  const rows = await db
+    .prepare(`SELECT * FROM ${JOB_TABLE} WHERE owner = ? ORDER BY created_at DESC LIMIT ?`)
+    .bind(owner, limit)
+    .all<JobRow>();
+  return rows.results.map(jobFromRow);
+};
+
+export const updateCrawlJob = async (
+  db: D1Database,
+  id: string,
+  changes: { status?: CrawlStatus; taskId?: string; error?: string | null; lastFetchAt?: number },
+): Promise<void> => {
+  const assignments: string[] = ["updated_at = ?"];
+  const values: unknown[] = [new Date().toISOString()];
+  if (changes.status) {
+    assignments.push("status = ?");
+    values.push(changes.status);
+  }
+  if (changes.taskId) {
+    assignments.push("task_id = ?");
+    values.push(changes.taskId);
+  }
+  if (changes.error !== undefined) {
+    assignments.push("error = ?");
+    values.push(changes.error);
+  }
+  if (changes.lastFetchAt !== undefined) {
+    assignments.push("last_fetch_at = ?");
+    values.push(changes.lastFetchAt);
+  }
+  await db
+    .prepare(`UPDATE ${JOB_TABLE} SET ${assignments.join(", ")} WHERE id = ?`)
+    .bind(...values, id)
+    .run();
+};
+
+export const crawlPageCounts = async (db: D1Database, crawlId: string): Promise<Record<CrawlPageStatus, number>> => {
+  const rows = await db
+    .prepare(`SELECT status, COUNT(*) AS count FROM ${PAGE_TABLE} WHERE crawl_id = ? GROUP BY status`)
+    .bind(crawlId)
+    .all<{ status: CrawlPageStatus; count: number }>();
+  const counts: Record<CrawlPageStatus, number> = { queued: 0, done: 0, failed: 0, blocked: 0, duplicate: 0, skipped: 0 };
+  for (const row of rows.results) {
+    counts[row.status] = row.count;
+  }
+  return counts;
+};
+
+/** Breadth-first: the shallowest queued page, oldest first. */
+export const nextQueuedPage = async (db: D1Database, crawlId: string): Promise<CrawlPage | null> => {
+  const row = await db
+    .prepare(`SELECT * FROM ${PAGE_TABLE} WHERE crawl_id = ? AND status = 'queued' ORDER BY depth, rowid LIMIT 1`)
+    .bind(crawlId)
+    .first<PageRow>();
+  return row ? pageFromRow(row) : null;
+};
+
+export const getCrawlPage = async (db: D1Database, crawlId: string, url: string): Promise<CrawlPage | null> => {
+  await ensureCrawlTables(db);
+  const row = await db
+    .prepare(`SELECT * FROM ${PAGE_TABLE} WHERE crawl_id = ? AND (url = ? OR canonical_url = ?) ORDER BY status = 'done' DESC LIMIT 1`)
+    .bind(crawlId, url, url)
+    .first<PageRow>();
+  return row ? pageFromRow(row) : null;
+};
+
+export const listCrawlPages = async (
+  db: D1Database,
+  crawlId: string,
+  options: { status?: CrawlPageStatus; limit?: number; offset?: number } = {},
+): Promise<CrawlPage[]> => {
+  await ensureCrawlTables(db);
+  const filter = options.status ? " AND status = ?" : "";
+  const statement = db.prepare(
+    `SELECT * FROM ${PAGE_TABLE} WHERE crawl_id = ?${filter} ORDER BY depth, rowid LIMIT ? OFFSET ?`,
+  );
+  const rows = await (options.status
+    ? statement.bind(crawlId, options.status, options.limit ?? 50, options.offset ?? 0)
+    : statement.bind(crawlId, options.limit ?? 50, options.offset ?? 0)
+  ).all<PageRow>();
+  return rows.results.map(pageFromRow);
+};
+
+export const isCanonicalDone = async (db: D1Database, crawlId: string, canonicalUrl: string): Promise<boolean> =>
+  Boolean(
+    await db
+      .prepare(`SELECT 1 FROM ${PAGE_TABLE} WHERE crawl_id = ? AND status = 'done' AND (canonical_url = ? OR url = ?) LIMIT 1`)
+      .bind(crawlId, canonicalUrl, canonicalUrl)
+      .first(),
+  );
+
+export const updateCrawlPage = async (
+  db: D1Database,
+  crawlId: string,
+  url: string,
+  page: Partial<Omit<CrawlPage, "url" | "depth">> & { status: CrawlPageStatus },
+): Promise<void> => {
+  await db
+    .prepare(
+      `UPDATE ${PAGE_TABLE} SET status = ?, canonical_url = ?, title = ?, content_key = ?, chars = ?, links = ?, error = ?, fetched_at = ?
+       WHERE crawl_id = ? AND url = ?`,
+    )
+    .bind(
+      page.status,
+      page.canonicalUrl ?? null,
+      page.title ?? null,
+      page.contentKey ?? null,
+      page.chars ?? null,
+      page.links ?? null,
+      page.error ?? null,
+      page.fetchedAt ?? new Date().toISOString(),
+      crawlId,
+      url,
+    )
+    .run();
+};
+
+/** Queues new URLs at `depth` without exceeding `maxPages` rows for the crawl. Returns how many were added. */
+export const enqueueCrawlPages = async (
+  db: D1Database,
+  crawlId: string,
+  urls: string[],
+  depth: number,
+  maxPages: number,
+): Promise<number> => {
+  const total = await db
+    .prepare(`SELECT COUNT(*) AS count FROM ${PAGE_TABLE} WHERE crawl_id = ?`)
+    .bind(crawlId)
+    .first<{ count: number }>();
+  const room = maxPages - (total?.count ?? 0);
+  if (room <= 0 || !urls.length) {
+    return 0;
+  }
+  const known = new Set<string>();
+  for (let start = 0; start < urls.length; start += LOOKUP_BATCH_SIZE) {
+    const batch = urls.slice(start, start + LOOKUP_BATCH_SIZE);
+    const rows = await db
+      .prepare(`SELECT url FROM ${PAGE_TABLE} WHERE crawl_id = ? AND url IN (${batch.map(() => "?").join(", ")})`)
+      .bind(crawlId, ...batch)
+      .all<{ url: string }>();
+    rows.results.forEach(row => known.add(row.url));
+  }
+  const fresh = [...new Set(urls)].filter(url => !known.has(url)).slice(0, room);
+  if (!fresh.length) {
+    return 0;
+  }
+  const results = await db.batch(
+    fresh.map(url =>
+      db
+        .prepare(`INSERT OR IGNORE INTO ${PAGE_TABLE} (crawl_id, url, depth, status) VALUES (?, ?, ?, 'queued')`)
+        .bind(crawlId, url, depth),
+    ),
+  );
+  return results.reduce((sum, result) => sum + (result.meta.changes ?? 0), 0);
+};
+
+export const skipQueuedPages = async (db: D1Database, crawlId: string, reason: string): Promise<void> => {
+  await db
+    .prepare(`UPDATE ${PAGE_TABLE} SET status = 'skipped', error = ? WHERE crawl_id = ? AND status = 'queued'`)
+    .bind(reason, crawlId)
+    .run();
+};
+
+export const crawlContentKey = (crawlId: string, pageId: string): string => `${CONTENT_PREFIX}${crawlId}/${pageId}`;
+
+export const putCrawlContent = (kv: KVNamespace, key: string, content: string, metadata: Record<string, unknown>) =>
+  kv.put(key, content, { metadata });
+
+export const getCrawlContent = (kv: KVNamespace, key: string): Promise<string | null> => kv.get(key);
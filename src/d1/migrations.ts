@@ -0,0 +1,236 @@
+import { z } from "zod";
+import type { D1Database } from "@cloudflare/workers-types";
+import { sha256Hex } from "../auth/crypto";
+import { splitStatements } from "./sql";
+
+const MIGRATION_TABLE = "mcp_migrations";
+
+export const migrationSchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9_.-]+$/, "Migration ids may only contain letters, digits, '_', '.' and '-'"),
+  name: z.string().optional(),
+  up: z.string().min(1),
+  down: z.string().optional(),
+});
+
+export const migrationListSchema = z.array(migrationSchema).superRefine((migrations, ctx) => {
+  const seen = new Set<string>();
+  migrations.forEach((migration, index) => {
+    if (seen.has(migration.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "id"], message: `Duplicate migration id ${migration.id}` });
+    }
+    seen.add(migration.id);
+  });
+});
+
+export type MigrationInput = z.infer<typeof migrationSchema>;
+
+export type AppliedMigration = {
+  id: string;
+  name: string | null;
+  checksum: string;
+  reversible: boolean;
+  appliedAt: string;
+};
+
+export type MigrationPlan = {
+  applied: AppliedMigration[];
+  pending: Array<{ id: string; name?: string; checksum: string; statements: string[] }>;
+  mismatched: Array<{ id: string; appliedChecksum: string; checksum: string }>;
+  outOfOrder: string[];
+  unknown: string[];
+};
+
+/** Raised when the supplied migrations disagree with what the database has already applied. */
+export class MigrationConflictError extends Error {}
+
+type MigrationRow = {
+  id: string;
+  name: string | null;
+  checksum: string;
+  down_sql: string | null;
+  applied_at: string;
+};
+
+const ensureMigrationTable = async (db: D1Database): Promise<void> => {
+  await db
+    .prepare(
+      `CREATE TABLE IF NOT EXISTS ${MIGRATION_TABLE} (
+        id TEXT PRIMARY KEY,
+        name TEXT,
+        checksum TEXT NOT NULL,
+        down_sql TEXT,
+        applied_at TEXT NOT NULL
+      )`,
+    )
+    .run();
+};
+
+/** Line endings and surrounding whitespace do not count as edits. */
+export const migrationChecksum = (migration: MigrationInput): Promise<string> =>
+  sha256Hex(migration.up.replace(/\r\n/g, "\n").trim());
+
+const fromRow = (row: MigrationRow): AppliedMigration => ({
+  id: row.id,
+  name: row.name,
+  checksum: row.checksum,
+  reversible: Boolean(row.down_sql),
+  appliedAt: row.applied_at,
+});
+
+const appliedRows = async (db: D1Database): Promise<MigrationRow[]> => {
+  await ensureMigrationTable(db);
+  const rows = await db.prepare(`SELECT * FROM ${MIGRATION_TABLE} ORDER BY id`).all<MigrationRow>();
+  return rows.results;
+};
+
+export const listAppliedMigrations = async (db: D1Database): Promise<AppliedMigration[]> =>
+  (await appliedRows(db)).map(fromRow);
+
+/**
+ * Compares the supplied migrations with the tracking table. Pending migrations
+ * must sort after the last applied id, and applied ones must keep their checksum.
+ */
+export const planMigrations = async (db: D1Database, migrations: MigrationInput[]): Promise<MigrationPlan> => {
+  const applied = await listAppliedMigrations(db);
+  const appliedById = new Map(applied.map(migration => [migration.id, migration]));
+  const lastApplied = applied[applied.length - 1]?.id;
+  const plan: MigrationPlan = { applied, pending: [], mismatched: [], outOfOrder: [], unknown: [] };
+
+  const sorted = [...migrations].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  for (const migration of sorted) {
+    const checksum = await migrationChecksum(migration);
+    const existing = appliedById.get(migration.id);
+    if (existing) {
+      if (existing.checksum !== checksum) {
+        plan.mismatched.push({ id: migration.id, appliedChecksum: existing.checksum, checksum });
+      }
+      continue;
+    }
+    if (lastApplied && migration.id < lastApplied) {
+      plan.outOfOrder.push(migration.id);
+      continue;
+    }
+    plan.pending.push({ id: migration.id, name: migration.name, checksum, statements: splitStatements(migration.up) });
+  }
+
+  const supplied = new Set(migrations.map(migration => migration.id));
+  plan.unknown = applied.filter(migration => !supplied.has(migration.id)).map(migration => migration.id);
+  return plan;
+};
+
+/**
+ * Applies pending migrations in id order, up to and including `target`. Each
+ * migration runs in its own DB.batch together with its tracking row, so it
+ * either lands completely or not at all.
+ */
+export const applyMigrations = async (
+  db: D1Database,
+  migrations: MigrationInput[],
+  options: { target?: string } = {},
+): Promise<AppliedMigration[]> => {
+  const plan = await planMigrations(db, migrations);
+  if (plan.mismatched.length) {
+    throw new MigrationConflictError(
+      `Applied migrations were edited: ${plan.mismatched.map(entry => entry.id).join(", ")}. Add a new migration instead.`,
+    );
+  }
+  if (plan.outOfOrder.length) {
+    throw new MigrationConflictError(
+      `Migrations sort before the last applied one: ${plan.outOfOrder.join(", ")}. Rename them with a later id.`,
+    );
+  }
+  if (options.target && !plan.pending.some(entry => entry.id === options.target)) {
+    throw new MigrationConflictError(`Target ${options.target} is not a pending migration.`);
+  }
+
+  const byId = new Map(migrations.map(migration => [migration.id, migration]));
+  const appliedNow: AppliedMigration[] = [];
+  for (const pending of plan.pending) {
+    const appliedAt = new Date().toISOString();
+    const down = byId.get(pending.id)?.down?.trim() || null;
+    await db.batch([
+      ...pending.statements.map(statement => db.prepare(statement)),
+      db
+        .prepare(`INSERT INTO ${MIGRATION_TABLE} (id, name, checksum, down_sql, applied_at) VALUES (?, ?, ?, ?, ?)`)
+        .bind(pending.id, pending.name ?? null, pending.checksum, down, appliedAt),
+    ]);
+    appliedNow.push({
+      id: pending.id,
+      name: pending.name ?? null,
+      checksum: pending.checksum,
+      reversible: Boolean(down),
+      appliedAt,
+    });
+    if (pending.id === options.target) {
+      break;
+    }
+  }
+  return appliedNow;
+};
+
+/**
+ * Reverts the most recent migrations with their stored down SQL: `steps` of them,
+ * or every migration applied after `target`.
+ */
+export const rollbackMigrations = async (
+  db: D1Database,
+  options: { steps?: number; target?: string } = {},
+): Promise<AppliedMigration[]> => {
+  const rows = (await appliedRows(db)).reverse();
+  let selected: MigrationRow[];
+  if (options.target) {
+    const index = rows.findIndex(row => row.id === options.target);
+    if (index === -1) {
+      throw new MigrationConflictError(`Target ${options.target} has not been applied.`);
+    }
+    selected = rows.slice(0, index);
+  } else {
+    selected = rows.slice(0, Math.max(1, options.steps ?? 1));
+  }
+
+  const irreversible = selected.filter(row => !row.down_sql).map(row => row.id);
+  if (irreversible.length) {
+    throw new MigrationConflictError(`Migrations without down SQL cannot be rolled back: ${irreversible.join(", ")}.`);
+  }
+
+  const reverted: AppliedMigration[] = [];
+  for (const row of selected) {
+    await db.batch([
+      ...splitStatements(row.down_sql ?? "").map(statement => db.prepare(statement)),
+      db.prepare(`DELETE FROM ${MIGRATION_TABLE} WHERE id = ?`).bind(row.id),
+    ]);
+    reverted.push(fromRow(row));
+  }
+  return reverted;
+};
+
+export const migrationActionSchema = z.object({
+  action: z.enum(["plan", "apply", "status", "rollback"]),
+  migrations: migrationListSchema
+    .optional()
+    .describe("Full ordered list of migrations; required for plan and apply, optional for status"),
+  target: z.string().optional().describe("apply: last migration to apply. rollback: migration to roll back to"),
+  steps: z.number().int().min(1).optional().describe("rollback: number of migrations to revert (default 1)"),
+});
+
+export type MigrationAction = z.infer<typeof migrationActionSchema>;
+
+export const isMigrationWrite = (action: MigrationAction["action"]): boolean =>
+  action === "apply" || action === "rollback";
+
+export const runMigrationAction = async (db: D1Database, input: MigrationAction): Promise<unknown> => {
+  switch (input.action) {
+    case "plan":
+      if (!input.migrations) throw new Error("migrations are required for plan");
+      return planMigrations(db, input.migrations);
+    case "apply":
+      if (!input.migrations) throw new Error("migrations are required for apply");
+      return { applied: await applyMigrations(db, input.migrations, { target: input.target }) };
+    case "status":
+      return input.migrations ? planMigrations(db, input.migrations) : { applied: await listAppliedMigrations(db) };
+    case "rollback":
+      return { rolledBack: await rollbackMigrations(db, { steps: input.steps, target: input.target }) };
+    default:
+      throw new Error(`Unsupported action: ${input.action}`);
+  }
+};
@@ -0,0 +1,158 @@
+import type { D1Database } from "@cloudflare/workers-types";
+import { sha256Hex } from "../auth/crypto";
+import { statementVerb } from "./sql";
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 1000;
+export const DEFAULT_MAX_BYTES = 50_000;
+export const MAX_BYTES = 1_000_000;
+
+export type ResultFormat = "json" | "csv" | "ndjson" | "markdown";
+
+type Row = Record<string, unknown>;
+
+export type ResultPage = {
+  results: Row[];
+  columns: string[];
+  offset: number;
+  nextCursor: string | null;
+  truncated: boolean;
+  notice?: string;
+  meta?: unknown;
+};
+
+type Cursor = { offset: number; query: string };
+
+const quote = (name: string): string => `"${name.replace(/"/g, '""')}"`;
+
+/** Binds a cursor to the statement, parameters and projection it was issued for. */
+const queryFingerprint = async (sql: string, params: unknown[], columns: string[] | undefined): Promise<string> =>
+  (await sha256Hex(JSON.stringify([sql, params, columns ?? null]))).slice(0, 16);
+
+const encodeCursor = (cursor: Cursor): string =>
+  btoa(JSON.stringify(cursor)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const decodeCursor = (value: string): Cursor => {
+  try {
+    const padded = value.replace(/-/g, "+").replace(/_/g, "/");
+    const cursor = JSON.parse(atob(padded + "=".repeat((4 - (padded.length % 4)) % 4))) as Cursor;
+    if (!Number.isInteger(cursor.offset) || cursor.offset < 0 || typeof cursor.query !== "string") {
+      throw new Error("malformed");
+    }
+    return cursor;
+  } catch {
+    throw new Error("Invalid cursor.");
+  }
+};
+
+/** SELECT, VALUES and WITH queries can be wrapped so paging and projection happen in SQLite. */
+const isWrappable = (sql: string): boolean => ["SELECT", "VALUES", "WITH"].includes(statementVerb(sql));
+
+const project = (rows: Row[], columns: string[] | undefined): Row[] =>
+  columns ? rows.map(row => Object.fromEntries(columns.map(column => [column, row[column] ?? null]))) : rows;
+
+/**
+ * Runs one read statement and returns a single page. Pages are cut at `limit`
+ * rows or `maxBytes` of serialized rows, whichever comes first; at least one
+ * row is always returned so a cursor never stalls.
+ */
+export const queryPage = async (
+  db: D1Database,
+  options: {
+    sql: string;
+    params?: unknown[];
+    columns?: string[];
+    limit?: number;
+    maxBytes?: number;
+    cursor?: string;
+  },
+): Promise<ResultPage> => {
+  const params = options.params ?? [];
+  const limit = Math.min(Math.max(options.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const maxBytes = Math.min(Math.max(options.maxBytes ?? DEFAULT_MAX_BYTES, 1), MAX_BYTES);
+  const fingerprint = await queryFingerprint(options.sql, params, options.columns);
+
+  let offset = 0;
+  if (options.cursor) {
+    const cursor = decodeCursor(options.cursor);
+    if (cursor.query !== fingerprint) {
+      throw new Error("Cursor does not belong to this query; repeat the original statement, params and columns.");
+    }
+    offset = cursor.offset;
+  }
+
+  let rows: Row[];
+  let meta: unknown;
+  if (isWrappable(options.sql)) {
+    const selection = options.columns?.length ? options.columns.map(quote).join(", ") : "*";
+    const prepared = db.prepare(`SELECT ${selection} FROM (${options.sql}\n) LIMIT ${limit + 1} OFFSET ${offset}`);
+    const result = await (params.length ? prepared.bind(...params) : prepared).all<Row>();
+    rows = result.results;
+    meta = result.meta;
+  } else {
+    const prepared = db.prepare(options.sql);
+    const result = await (params.length ? prepared.bind(...params) : prepared).all<Row>();
+    rows = project(result.results.slice(offset, offset + limit + 1), options.columns);
+    meta = result.meta;
+  }
+
+  const hasMoreRows = rows.length > limit;
+  const page: Row[] = [];
+  let bytes = 0;
+  for (const row of rows.slice(0, limit)) {
+    const size = JSON.stringify(row).length;
+    if (page.length && bytes + size > maxBytes) {
+      break;
+    }
+    page.push(row);
+    bytes += size;
+  }
+
+  const cutByBytes = page.length < Math.min(rows.length, limit);
+  const truncated = hasMoreRows || cutByBytes;
+  const columns = options.columns?.length ? options.columns : [...new Set(page.flatMap(row => Object.keys(row)))];
+  return {
+    results: page,
+    columns,
+    offset,
+    nextCursor: truncated ? encodeCursor({ offset: offset + page.length, query: fingerprint }) : null,
+    truncated,
+    notice: truncated
+      ? `Showing rows ${offset + 1}-${offset + page.length}${cutByBytes ? ` (cut at ${maxBytes} bytes)` : ""}. Pass cursor to fetch more.`
+      : undefined,
+    meta,
+  };
+};
+
+const cellText = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+const csvCell = (value: unknown): string => {
+  const text = cellText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const markdownCell = (value: unknown): string => cellText(value).replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+
+export const formatRows = (rows: Row[], columns: string[], format: Exclude<ResultFormat, "json">): string => {
+  switch (format) {
+    case "csv":
+      return [columns.map(csvCell).join(","), ...rows.map(row => columns.map(column => csvCell(row[column])).join(","))].join(
+        "\r\n",
+      );
+    case "ndjson":
+      return rows.map(row => JSON.stringify(row)).join("\n");
+    case "markdown":
+      if (!columns.length) return "_No rows._";
+      return [
+        `| ${columns.map(markdownCell).join(" | ")} |`,
+        `| ${columns.map(() => "---").join(" | ")} |`,
+        ...rows.map(row => `| ${columns.map(column => markdownCell(row[column])).join(" | ")} |`),
+      ].join("\n");
+    default:
+      throw new Error(`Unsupported format: ${format}`);
+  }
+};
@@ -0,0 +1,53 @@
+import { Hono } from "hono";
+import type { Context } from "hono";
+import { MyMCP } from "../agents/my-mcp";
+import { requireAuth } from "../auth";
+import { ToolPermissionError } from "../auth/policy";
+import type { AppBindings } from "../types";
+import { MigrationConflictError, migrationActionSchema } from "./migrations";
+
+/** Runs a d1_migrate action through the tool so policy and read-only checks match the MCP path. */
+const runAction = async (c: Context<AppBindings>, input: Record<string, unknown>): Promise<Response> => {
+  const parsed = migrationActionSchema.safeParse(input);
+  if (!parsed.success) {
+    return c.json({ error: parsed.error.message }, 400);
+  }
+
+  const agent = MyMCP.shared();
+  try {
+    const result = await agent.invokeTool(
+      "d1_migrate",
+      parsed.data,
+      c.req.raw,
+      c.env,
+      c.executionCtx,
+      c.get("principal"),
+    );
+    const text = result.content.find(item => item.type === "text");
+    return c.json(text?.type === "text" ? JSON.parse(text.text) : null);
+  } catch (error) {
+    if (error instanceof ToolPermissionError) {
+      return c.json({ error: error.message }, 403);
+    }
+    if (error instanceof MigrationConflictError) {
+      return c.json({ error: error.message }, 409);
+    }
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 400);
+  }
+};
+
+export const migrationRoutes = new Hono<AppBindings>();
+
+migrationRoutes.use("*", requireAuth);
+
+migrationRoutes.get("/", c => runAction(c, { action: "status" }));
+
+migrationRoutes.post("/:action", async c => {
+  let body: Record<string, unknown>;
+  try {
+    body = await c.req.json();
+  } catch (error) {
+    return c.json({ error: `Invalid JSON body: ${error instanceof Error ? error.message : String(error)}` }, 400);
+  }
+  return runAction(c, { ...body, action: c.req.param("action") });
+});
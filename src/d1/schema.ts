@@ -0,0 +1,211 @@
+import type { D1Database } from "@cloudflare/workers-types";
+
+const TABLE_LIMIT = 200;
+const ROW_COUNT_CAP = 10_000;
+
+export type ColumnSchema = {
+  name: string;
+  type: string;
+  nullable: boolean;
+  default: string | null;
+  primaryKey: number;
+};
+
+export type ForeignKeySchema = {
+  columns: string[];
+  table: string;
+  references: string[];
+  onUpdate: string;
+  onDelete: string;
+};
+
+export type IndexSchema = {
+  name: string;
+  columns: string[];
+  unique: boolean;
+  origin: "c" | "u" | "pk";
+  partial: boolean;
+};
+
+export type TableSchema = {
+  name: string;
+  type: "table" | "view";
+  columns: ColumnSchema[];
+  primaryKey: string[];
+  foreignKeys: ForeignKeySchema[];
+  indexes: IndexSchema[];
+  rowCount?: { value: number; exact: boolean; source: "sqlite_stat1" | "count" };
+};
+
+export type DatabaseSchema = {
+  tables: TableSchema[];
+  truncated: boolean;
+};
+
+type MasterRow = { type: "table" | "view"; name: string };
+type ColumnRow = { cid: number; name: string; type: string; notnull: number; dflt_value: string | null; pk: number };
+type ForeignKeyRow = { id: number; seq: number; table: string; from: string; to: string | null; on_update: string; on_delete: string };
+type IndexRow = { name: string; unique: number; origin: "c" | "u" | "pk"; partial: number };
+type IndexColumnRow = { seqno: number; name: string | null };
+
+const quote = (name: string): string => `"${name.replace(/"/g, '""')}"`;
+
+const foreignKeys = (rows: ForeignKeyRow[]): ForeignKeySchema[] => {
+  const grouped = new Map<number, ForeignKeyRow[]>();
+  for (const row of rows) {
+    grouped.set(row.id, [...(grouped.get(row.id) ?? []), row]);
+  }
+  return [...grouped.values()].map(group => {
+    const ordered = group.sort((a, b) => a.seq - b.seq);
+    return {
+      columns: ordered.map(row => row.from),
+      table: ordered[0].table,
+      references: ordered.map(row => row.to ?? ""),
+      onUpdate: ordered[0].on_update,
+      onDelete: ordered[0].on_delete,
+    };
+  });
+};
+
+/** Row estimates from ANALYZE statistics, keyed by table name. Empty when ANALYZE never ran. */
+const statEstimates = async (db: D1Database): Promise<Map<string, number>> => {
+  const estimates = new Map<string, number>();
+  try {
+    const stats = await db.prepare("SELECT tbl, stat FROM sqlite_stat1").all<{ tbl: string; stat: string }>();
+    for (const row of stats.results) {
+      const rows = Number.parseInt(row.stat.split(" ")[0] ?? "", 10);
+      if (Number.isFinite(rows)) {
+        estimates.set(row.tbl, Math.max(estimates.get(row.tbl) ?? 0, rows));
+      }
+    }
+  } catch {
+    // sqlite_stat1 only exists after ANALYZE.
+  }
+  return estimates;
+};
+
+/**
+ * Reads tables and views from sqlite_master together with their columns, keys
+ * and indexes. Row counts come from ANALYZE statistics when available, otherwise
+ * from a COUNT capped at ROW_COUNT_CAP rows so large tables stay cheap.
+ */
+export const introspectSchema = async (
+  db: D1Database,
+  options: { table?: string; rowCounts?: boolean } = {},
+): Promise<DatabaseSchema> => {
+  const filter = options.table ? " AND name = ?" : "";
+  const statement = db.prepare(
+    `SELECT type, name FROM sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%' AND name NOT LIKE '_cf_%'${filter} ORDER BY type, name LIMIT ${TABLE_LIMIT + 1}`,
+  );
+  const master = await (options.table ? statement.bind(options.table) : statement).all<MasterRow>();
+  const entries = master.results.slice(0, TABLE_LIMIT);
+  const estimates = options.rowCounts === false ? new Map<string, number>() : await statEstimates(db);
+
+  const tables: TableSchema[] = [];
+  for (const entry of entries) {
+    const name = quote(entry.name);
+    const [columnRows, foreignKeyRows, indexRows] = await db.batch([
+      db.prepare(`PRAGMA table_info(${name})`),
+      db.prepare(`PRAGMA foreign_key_list(${name})`),
+      db.prepare(`PRAGMA index_list(${name})`),
+    ]);
+
+    const indexList = (indexRows.results ?? []) as IndexRow[];
+    const indexColumns = indexList.length
+      ? await db.batch(indexList.map(index => db.prepare(`PRAGMA index_info(${quote(index.name)})`)))
+      : [];
+
+    const columns = ((columnRows.results ?? []) as ColumnRow[])
+      .sort((a, b) => a.cid - b.cid)
+      .map(column => ({
+        name: column.name,
+        type: column.type || "ANY",
+        nullable: !column.notnull && !column.pk,
+        default: column.dflt_value,
+        primaryKey: column.pk,
+      }));
+
+    const table: TableSchema = {
+      name: entry.name,
+      type: entry.type,
+      columns,
+      primaryKey: columns
+        .filter(column => column.primaryKey > 0)
+        .sort((a, b) => a.primaryKey - b.primaryKey)
+        .map(column => column.name),
+      foreignKeys: foreignKeys((foreignKeyRows.results ?? []) as ForeignKeyRow[]),
+      indexes: indexList.map((index, position) => ({
+        name: index.name,
+        columns: ((indexColumns[position]?.results ?? []) as IndexColumnRow[])
+          .sort((a, b) => a.seqno - b.seqno)
+          .map(column => column.name ?? "<expression>"),
+        unique: Boolean(index.unique),
+        origin: index.origin,
+        partial: Boolean(index.partial),
+      })),
+    };
+
+    if (options.rowCounts !== false && entry.type === "table") {
+      const estimate = estimates.get(entry.name);
+      if (estimate !== undefined) {
+        table.rowCount = { value: estimate, exact: false, source: "sqlite_stat1" };
+      } else {
+        const counted = await db
+          .prepare(`SELECT COUNT(*) AS count FROM (SELECT 1 FROM ${name} LIMIT ${ROW_COUNT_CAP + 1})`)
+          .first<{ count: number }>();
+        const value = counted?.count ?? 0;
+        table.rowCount = { value: Math.min(value, ROW_COUNT_CAP), exact: value <= ROW_COUNT_CAP, source: "count" };
+      }
+    }
+
+    tables.push(table);
+  }
+
+  return { tables, truncated: master.results.length > TABLE_LIMIT };
+};
+
+const describeRowCount = (table: TableSchema): string => {
+  if (!table.rowCount) {
+    return "";
+  }
+  const { value, exact } = table.rowCount;
+  return exact ? ` (${value} rows)` : table.rowCount.source === "count" ? ` (>${value} rows)` : ` (~${value} rows)`;
+};
+
+/** Compact, DDL-like text meant to be pasted into model context. */
+export const renderSchemaText = (schema: DatabaseSchema): string => {
+  const blocks = schema.tables.map(table => {
+    const lines = [`${table.type.toUpperCase()} ${table.name}${describeRowCount(table)}`];
+    const singlePrimaryKey = table.primaryKey.length === 1 ? table.primaryKey[0] : undefined;
+
+    for (const column of table.columns) {
+      const parts = [`  ${column.name} ${column.type}`];
+      if (column.name === singlePrimaryKey) parts.push("PRIMARY KEY");
+      if (!column.nullable && column.name !== singlePrimaryKey) parts.push("NOT NULL");
+      if (column.default !== null) parts.push(`DEFAULT ${column.default}`);
+      const reference = table.foreignKeys.find(key => key.columns.length === 1 && key.columns[0] === column.name);
+      if (reference) {
+        parts.push(`-> ${reference.table}.${reference.references[0] || "rowid"}`);
+        if (reference.onDelete !== "NO ACTION") parts.push(`ON DELETE ${reference.onDelete}`);
+      }
+      lines.push(parts.join(" "));
+    }
+
+    if (table.primaryKey.length > 1) {
+      lines.push(`  PRIMARY KEY (${table.primaryKey.join(", ")})`);
+    }
+    for (const key of table.foreignKeys.filter(candidate => candidate.columns.length > 1)) {
+      lines.push(`  FOREIGN KEY (${key.columns.join(", ")}) -> ${key.table}(${key.references.join(", ")})`);
+    }
+    for (const index of table.indexes.filter(candidate => candidate.origin !== "pk")) {
+      const flags = [index.unique ? "UNIQUE " : "", index.partial ? "PARTIAL " : ""].join("");
+      lines.push(`  ${flags}INDEX ${index.name} (${index.columns.join(", ")})`);
+    }
+    return lines.join("\n");
+  });
+
+  if (schema.truncated) {
+    blocks.push(`-- only the first ${TABLE_LIMIT} tables are shown`);
+  }
+  return blocks.join("\n\n") || "-- no tables";
+};
@@ -0,0 +1,189 @@
+import type { Env, Principal } from "../types";
+
+export type StatementKind = "read" | "write";
+
+const READ_VERBS = new Set(["SELECT", "VALUES", "EXPLAIN"]);
+const MAIN_VERBS = new Set(["SELECT", "VALUES", "INSERT", "UPDATE", "DELETE", "REPLACE"]);
+
+/** PRAGMAs that change state even when called without a value. */
+const WRITE_PRAGMAS = new Set(["incremental_vacuum", "optimize", "shrink_memory", "wal_checkpoint"]);
+
+/** PRAGMAs whose parenthesised argument is a query target rather than a new value. */
+const QUERY_PRAGMAS = new Set([
+  "foreign_key_check",
+  "foreign_key_list",
+  "index_info",
+  "index_list",
+  "index_xinfo",
+  "integrity_check",
+  "quick_check",
+  "table_info",
+  "table_list",
+  "table_xinfo",
+]);
+
+/**
+ * Walks the statement once, yielding code with comments and string literals
+ * blanked out and the offsets of top-level semicolons.
+ */
+const scan = (sql: string): { code: string; separators: number[] } => {
+  let code = "";
+  const separators: number[] = [];
+  let index = 0;
+  while (index < sql.length) {
+    const char = sql[index];
+    const next = sql[index + 1];
+    if (char === "-" && next === "-") {
+      const end = sql.indexOf("\n", index);
+      const stop = end === -1 ? sql.length : end;
+      code += " ".repeat(stop - index);
+      index = stop;
+      continue;
+    }
+    if (char === "/" && next === "*") {
+      const end = sql.indexOf("*/", index + 2);
+      const stop = end === -1 ? sql.length : end + 2;
+      code += " ".repeat(stop - index);
+      index = stop;
+      continue;
+    }
+    if (char === "'" || char === '"' || char === "`" || char === "[") {
+      const close = char === "[" ? "]" : char;
+      let stop = index + 1;
+      while (stop < sql.length) {
+        if (sql[stop] === close) {
+          if (close !== "]" && sql[stop + 1] === close) {
+            stop += 2;
+            continue;
+          }
+          break;
+        }
+        stop += 1;
+      }
+      stop = Math.min(stop + 1, sql.length);
+      // Quoted identifiers stay visible as a placeholder word; string literals become blanks.
+      code += char === "'" ? " ".repeat(stop - index) : `x${" ".repeat(stop - index - 1)}`;
+      index = stop;
+      continue;
+    }
+    if (char === ";") {
+      separators.push(index);
+    }
+    code += char;
+    index += 1;
+  }
+  return { code, separators };
+};
+
+const words = (code: string): string[] => code.toUpperCase().match(/[A-Z_][A-Z0-9_]*|[()=]/g) ?? [];
+
+/**
+ * True while a CREATE TRIGGER statement is inside its BEGIN ... END body, whose
+ * statements end in semicolons of their own. CASE ... END inside the body nests.
+ */
+const isOpenTrigger = (code: string): boolean => {
+  const tokens = words(code);
+  const trigger =
+    tokens[0] === "CREATE" &&
+    (tokens[1] === "TRIGGER" || ((tokens[1] === "TEMP" || tokens[1] === "TEMPORARY") && tokens[2] === "TRIGGER"));
+  if (!trigger) {
+    return false;
+  }
+  let depth = 0;
+  let opened = false;
+  for (const token of tokens) {
+    if (token === "BEGIN") {
+      depth += 1;
+      opened = true;
+    } else if (opened && token === "CASE") {
+      depth += 1;
+    } else if (opened && token === "END") {
+      depth -= 1;
+    }
+  }
+  return opened && depth > 0;
+};
+
+/**
+ * Splits on top-level semicolons, ignoring ones inside literals, comments and
+ * trigger bodies, and drops empty statements.
+ */
+export const splitStatements = (sql: string): string[] => {
+  const { code, separators } = scan(sql);
+  const statements: string[] = [];
+  let start = 0;
+  for (const separator of [...separators, sql.length]) {
+    if (separator < sql.length && isOpenTrigger(code.slice(start, separator))) {
+      continue;
+    }
+    if (code.slice(start, separator).trim()) {
+      statements.push(sql.slice(start, separator).trim());
+    }
+    start = separator + 1;
+  }
+  return statements;
+};
+
+export const assertSingleStatement = (sql: string): string => {
+  const statements = splitStatements(sql);
+  if (statements.length === 0) {
+    throw new Error("SQL statement is empty.");
+  }
+  if (statements.length > 1) {
+    throw new Error(
+      `Expected a single SQL statement but found ${statements.length}; pass each one separately in statements[].`,
+    );
+  }
+  return statements[0];
+};
+
+/** Finds the verb of a WITH statement by skipping the parenthesised CTE bodies. */
+const verbAfterWith = (tokens: string[]): string | undefined => {
+  let depth = 0;
+  for (const token of tokens.slice(1)) {
+    if (token === "(") depth += 1;
+    else if (token === ")") depth -= 1;
+    else if (depth === 0 && MAIN_VERBS.has(token)) return token;
+  }
+  return undefined;
+};
+
+/** `PRAGMA [schema.]name`, `PRAGMA name = value` and `PRAGMA name(value)`. */
+const classifyPragma = (tokens: string[]): StatementKind => {
+  if (tokens.includes("=")) {
+    return "write";
+  }
+  const open = tokens.indexOf("(");
+  const name = (tokens.slice(1, open === -1 ? undefined : open).pop() ?? "").toLowerCase();
+  if (open !== -1) {
+    return QUERY_PRAGMAS.has(name) ? "read" : "write";
+  }
+  return WRITE_PRAGMAS.has(name) ? "write" : "read";
+};
+
+/**
+ * Classifies one statement as a read (SELECT, VALUES, EXPLAIN, WITH ... SELECT and
+ * PRAGMA queries) or a write (DML, DDL, transactions, ATTACH, PRAGMA assignments).
+ * Anything unrecognised counts as a write.
+ */
+export const classifyStatement = (sql: string): StatementKind => {
+  const tokens = words(scan(sql).code);
+  const verb = tokens.find(token => token !== "(");
+  if (!verb) {
+    return "write";
+  }
+  if (verb === "WITH") {
+    const main = verbAfterWith(tokens);
+    return main === "SELECT" || main === "VALUES" ? "read" : "write";
+  }
+  if (verb === "PRAGMA") {
+    return classifyPragma(tokens);
+  }
+  return READ_VERBS.has(verb) ? "read" : "write";
+};
+
+export const statementVerb = (sql: string): string => words(scan(sql).code).find(token => token !== "(") ?? "";
+
+/** The principal's setting wins over the server-wide D1_READ_ONLY default. */
+export const d1ReadOnlyDefault = (env: Env, principal?: Principal): boolean =>
+  principal?.d1ReadOnly ?? env.D1_READ_ONLY === "true";
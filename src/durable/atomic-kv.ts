@@ -0,0 +1,218 @@
+import type { DurableObjectState } from "@cloudflare/workers-types";
+import { isReservedKvKey } from "../auth/policy";
+import type { Env } from "../types";
+
+const ENTRY_KEY = "entry";
+const LOCK_KEY = "lock";
+const MIN_LOCK_TTL_MS = 1000;
+const MAX_LOCK_TTL_MS = 5 * 60 * 1000;
+
+type StoredEntry = {
+  value: unknown;
+  version: number;
+  updatedAt: string;
+  /** Deletes leave a tombstone so the version keeps counting up across delete and re-create. */
+  deleted?: boolean;
+};
+
+type StoredLock = {
+  token: string;
+  owner?: string;
+  expiresAt: number;
+};
+
+export type AtomicKvRequest = {
+  key: string;
+  value?: unknown;
+  expectedVersion?: number;
+  delta?: number;
+  initial?: number;
+  ttlMs?: number;
+  token?: string;
+  owner?: string;
+  mirror?: boolean;
+};
+
+/**
+ * One instance per key (see atomicKvStub), so every operation on a key is
+ * serialized by the object's input gate. Versions start at 1 and never repeat,
+ * deletes included; an expectedVersion of 0 means "the key must not exist".
+ * While a lock is held, mutations must carry its token.
+ */
+export class AtomicKvDurableObject {
+  constructor(private readonly state: DurableObjectState, private readonly env: Env) {}
+
+  async fetch(request: Request): Promise<Response> {
+    if (request.method !== "POST") {
+      return this.json({ error: "Unsupported request" }, 405);
+    }
+    const operation = new URL(request.url).pathname.replace(/^\/+|\/+$/g, "");
+    const body = (await request.json()) as AtomicKvRequest;
+    if (!body?.key) {
+      return this.json({ error: "key is required" }, 400);
+    }
+    if (isReservedKvKey(body.key)) {
+      return this.json({ error: `Key ${body.key} uses a reserved prefix` }, 403);
+    }
+
+    if (["set", "cas", "increment", "delete"].includes(operation)) {
+      const locked = await this.lockConflict(body);
+      if (locked) {
+        return locked;
+      }
+    }
+
+    switch (operation) {
+      case "get":
+        return this.json(this.view(body.key, await this.getEntry()));
+      case "set":
+        return this.json(await this.commit(body, body.value));
+      case "cas": {
+        if (typeof body.expectedVersion !== "number") {
+          return this.json({ error: "expectedVersion is required" }, 400);
+        }
+        const current = await this.getEntry();
+        if (!this.matchesVersion(current, body.expectedVersion)) {
+          return this.json({ ok: false, ...this.view(body.key, current) }, 409);
+        }
+        return this.json({ ok: true, ...(await this.commit(body, body.value)) });
+      }
+      case "increment": {
+        const current = await this.getEntry();
+        const base = current && !current.deleted ? current.value : body.initial ?? 0;
+        if (typeof base !== "number") {
+          return this.json({ error: `Value at ${body.key} is not a number` }, 409);
+        }
+        return this.json(await this.commit(body, base + (body.delta ?? 1)));
+      }
+      case "delete": {
+        const current = await this.getEntry();
+        if (typeof body.expectedVersion === "number" && !this.matchesVersion(current, body.expectedVersion)) {
+          return this.json({ ok: false, ...this.view(body.key, current) }, 409);
+        }
+        if (!current || current.deleted) {
+          return this.json({ ok: true, key: body.key, deleted: false, version: current?.version ?? 0 });
+        }
+        const tombstone: StoredEntry = {
+          value: null,
+          version: current.version + 1,
+          updatedAt: new Date().toISOString(),
+          deleted: true,
+        };
+        await this.state.storage.put(ENTRY_KEY, tombstone);
+        if (body.mirror) {
+          await this.state.blockConcurrencyWhile(() => this.env.KV.delete(body.key));
+        }
+        return this.json({ ok: true, key: body.key, deleted: true, version: tombstone.version });
+      }
+      case "lock":
+        return this.acquireLock(body);
+      case "unlock":
+        return this.releaseLock(body);
+      default:
+        return this.json({ error: `Unsupported operation ${operation}` }, 404);
+    }
+  }
+
+  private async commit(body: AtomicKvRequest, value: unknown) {
+    const current = await this.getEntry();
+    const entry: StoredEntry = {
+      value: value ?? null,
+      version: (current?.version ?? 0) + 1,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.state.storage.put(ENTRY_KEY, entry);
+    if (body.mirror) {
+      // Holding the input gate keeps mirrored writes in version order.
+      await this.state.blockConcurrencyWhile(() =>
+        this.env.KV.put(body.key, JSON.stringify(entry.value), { metadata: { version: entry.version } }),
+      );
+    }
+    return this.view(body.key, entry);
+  }
+
+  /** Acquires a free or expired lock, or renews one held with the same token. */
+  private async acquireLock(body: AtomicKvRequest): Promise<Response> {
+    const ttlMs = Math.max(MIN_LOCK_TTL_MS, Math.min(body.ttlMs ?? 30_000, MAX_LOCK_TTL_MS));
+    const now = Date.now();
+    const current = await this.state.storage.get<StoredLock>(LOCK_KEY);
+    if (current && current.expiresAt > now && current.token !== body.token) {
+      return this.json(
+        { acquired: false, key: body.key, owner: current.owner, expiresAt: new Date(current.expiresAt).toISOString() },
+        409,
+      );
+    }
+    const lock: StoredLock = {
+      token: current && current.token === body.token ? current.token : crypto.randomUUID(),
+      owner: body.owner ?? current?.owner,
+      expiresAt: now + ttlMs,
+    };
+    await this.state.storage.put(LOCK_KEY, lock);
+    return this.json({
+      acquired: true,
+      key: body.key,
+      token: lock.token,
+      owner: lock.owner,
+      expiresAt: new Date(lock.expiresAt).toISOString(),
+    });
+  }
+
+  private async releaseLock(body: AtomicKvRequest): Promise<Response> {
+    const current = await this.state.storage.get<StoredLock>(LOCK_KEY);
+    if (!current || current.expiresAt <= Date.now()) {
+      await this.state.storage.delete(LOCK_KEY);
+      return this.json({ released: false, key: body.key, reason: "not locked" });
+    }
+    if (current.token !== body.token) {
+      return this.json({ released: false, key: body.key, reason: "token does not match" }, 409);
+    }
+    await this.state.storage.delete(LOCK_KEY);
+    return this.json({ released: true, key: body.key });
+  }
+
+  /** Rejects a mutation while someone else holds an unexpired lock on the key. */
+  private async lockConflict(body: AtomicKvRequest): Promise<Response | null> {
+    const lock = await this.state.storage.get<StoredLock>(LOCK_KEY);
+    if (!lock || lock.expiresAt <= Date.now() || lock.token === body.token) {
+      return null;
+    }
+    return this.json(
+      {
+        error: `Key ${body.key} is locked${lock.owner ? ` by ${lock.owner}` : ""}; pass the lock token to modify it`,
+        key: body.key,
+        owner: lock.owner,
+        expiresAt: new Date(lock.expiresAt).toISOString(),
+      },
+      423,
+    );
+  }
+
+  /** Exact version match, or 0 for a key that does not currently exist. */
+  private matchesVersion(entry: StoredEntry | null, expectedVersion: number): boolean {
+    if (expectedVersion === 0) {
+      return !entry || Boolean(entry.deleted);
+    }
+    return entry?.version === expectedVersion;
+  }
+
+  private async getEntry(): Promise<StoredEntry | null> {
+    return (await this.state.storage.get<StoredEntry>(ENTRY_KEY)) ?? null;
+  }
+
+  private view(key: string, entry: StoredEntry | null) {
+    if (!entry) {
+      return { key, exists: false, value: null, version: 0 };
+    }
+    if (entry.deleted) {
+      return { key, exists: false, value: null, version: entry.version, updatedAt: entry.updatedAt };
+    }
+    return { key, exists: true, value: entry.value, version: entry.version, updatedAt: entry.updatedAt };
+  }
+
+  private json(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body, null, 2), {
+      status,
+      headers: { "content-type": "application/json" },
+    });
+  }
+}
@@ -0,0 +1,125 @@
+type CronField = {
+  values: Set<number>;
+  restricted: boolean;
+};
+
+export type CronExpression = {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+};
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+const MAX_SEARCH_MINUTES = 5 * 366 * 24 * 60;
+
+const parseValue = (raw: string, names: string[] | undefined, offset: number): number => {
+  const index = names?.indexOf(raw.toUpperCase()) ?? -1;
+  if (index >= 0) {
+    return index + offset;
+  }
+  if (!/^\d+$/.test(raw)) {
+    throw new Error(`Invalid cron value "${raw}"`);
+  }
+  return Number(raw);
+};
+
+const parseField = (source: string, min: number, max: number, names?: string[], nameOffset = 0): CronField => {
+  const values = new Set<number>();
+  for (const part of source.split(",")) {
+    const [range, stepRaw] = part.split("/");
+    const step = stepRaw === undefined ? 1 : Number(stepRaw);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step in "${part}"`);
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== "*") {
+      const [from, to] = range.split("-");
+      start = parseValue(from, names, nameOffset);
+      end = to === undefined ? (stepRaw === undefined ? start : max) : parseValue(to, names, nameOffset);
+    }
+    if (start < min || end > max || start > end) {
+      throw new Error(`Cron field "${part}" is out of range ${min}-${max}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return { values, restricted: !source.startsWith("*") };
+};
+
+export const parseCron = (expression: string): CronExpression => {
+  const normalized = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields`);
+  }
+
+  const dayOfWeek = parseField(fields[4], 0, 7, DAY_NAMES);
+  if (dayOfWeek.values.has(7)) {
+    dayOfWeek.values.delete(7);
+    dayOfWeek.values.add(0);
+  }
+
+  return {
+    minute: parseField(fields[0], 0, 59),
+    hour: parseField(fields[1], 0, 23),
+    dayOfMonth: parseField(fields[2], 1, 31),
+    month: parseField(fields[3], 1, 12, MONTH_NAMES, 1),
+    dayOfWeek,
+  };
+};
+
+const matchesDay = (cron: CronExpression, date: Date): boolean => {
+  const dom = cron.dayOfMonth.values.has(date.getUTCDate());
+  const dow = cron.dayOfWeek.values.has(date.getUTCDay());
+  if (cron.dayOfMonth.restricted && cron.dayOfWeek.restricted) {
+    return dom || dow;
+  }
+  return dom && dow;
+};
+
+export const nextCronRun = (expression: string | CronExpression, after: number): number => {
+  const cron = typeof expression === "string" ? parseCron(expression) : expression;
+  const date = new Date(after);
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  for (let guard = 0; guard < MAX_SEARCH_MINUTES; guard += 1) {
+    if (!cron.month.values.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+    if (!cron.hour.values.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!cron.minute.values.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+      continue;
+    }
+    return date.getTime();
+  }
+
+  throw new Error("Cron expression has no upcoming run");
+};
@@ -0,0 +1,28 @@
+import type { DurableObjectState } from "@cloudflare/workers-types";
+import type { Env, Principal } from "../types";
+
+export const durableExecutionContext = (state: DurableObjectState): ExecutionContext => ({
+  waitUntil: promise => state.waitUntil(promise),
+  passThroughOnException: () => {},
+  props: {},
+});
+
+export const SESSION_BINDING = "MCP_SESSION";
+
+export const LONG_TASK_BASE = "https://durable-task";
+
+export const longTaskStub = (env: Env) => env.LONG_TASK.get(env.LONG_TASK.idFromName("mcp"));
+
+/** Tasks and schedules are only visible to the principal that created them when this header is set. */
+export const TASK_OWNER_HEADER = "x-mcp-task-owner";
+
+export const taskOwnerId = (principal?: Principal): string => principal?.id ?? "anonymous";
+
+export const taskOwnerHeaders = (principal?: Principal): Record<string, string> => ({
+  [TASK_OWNER_HEADER]: taskOwnerId(principal),
+});
+
+export const ATOMIC_KV_BASE = "https://kv-atomic";
+
+/** Each key lives in its own object so unrelated keys never contend. */
+export const atomicKvStub = (env: Env, key: string) => env.KV_ATOMIC.get(env.KV_ATOMIC.idFromName(key));
@@ -1,63 +1,238 @@
 import type { DurableObjectState } from "@cloudflare/workers-types";
-import type { DurableTaskPayload, Env } from "../types";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types";
+import { McpAgent } from "../agents/mcp";
+import type { ProgressUpdate } from "../agents/mcp";
+import type {
+  DurableSchedulePayload,
+  DurableTaskPayload,
+  Env,
+  Principal,
+  RetryPolicy,
+  TaskSubscriber,
+} from "../types";
+import { nextCronRun, parseCron } from "./cron";
+import { SESSION_BINDING, TASK_OWNER_HEADER, durableExecutionContext, taskOwnerId } from "./helpers";
+import { resolveOperation } from "./operations";
+import "../crawl/operation";
+import {
+  WORKFLOW_OPERATION,
+  createWorkflowState,
+  failedWorkflowStep,
+  nextWorkflowStep,
+  renderArgs,
+  resetWorkflow,
+  stepOutput,
+  validateWorkflow,
+  workflowScope,
+  workflowSummary,
+} from "./workflow";
+import type { WorkflowState } from "./workflow";
 
 const STORAGE_PREFIX = "task:";
+const SCHEDULE_PREFIX = "schedule:";
+const SCHEDULE_HISTORY_LIMIT = 20;
+const MIN_INTERVAL_MS = 60_000;
+const MAX_DELAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_TIMEOUT_MS = 14 * 60 * 1000;
+const LEASE_GRACE_MS = 60_000;
+const MAX_ATTEMPTS = 20;
+const MAX_SUBSCRIBERS = 20;
 
-type TaskStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+const DEFAULT_RETRY: Required<RetryPolicy> = {
+  maxAttempts: 1,
+  initialDelayMs: 1000,
+  maxDelayMs: 5 * 60 * 1000,
+  backoffMultiplier: 2,
+  jitter: 0.2,
+};
+
+type TaskStatus = "queued" | "running" | "completed" | "dead_letter" | "cancelled";
+
+type AttemptError = {
+  attempt: number;
+  error: string;
+  at: string;
+};
 
 type StoredTask = {
   id: string;
   status: TaskStatus;
   operation: string;
   data?: Record<string, unknown> | null;
+  principal?: Principal;
+  scheduleId?: string;
   createdAt: string;
   updatedAt: string;
   runAt: number;
-  durationMs: number;
-  result?: Record<string, unknown>;
+  attempts: number;
+  retry: Required<RetryPolicy>;
+  timeoutMs: number;
+  errors: AttemptError[];
+  workflow?: WorkflowState;
+  subscribers?: TaskSubscriber[];
+  progress?: ProgressUpdate;
+  /** A running attempt past this time was lost (e.g. the object was evicted) and is retried. */
+  leaseExpiresAt?: number;
+  startedAt?: string;
+  completedAt?: string;
+  result?: CallToolResult;
   error?: string;
 };
 
+type ScheduleRun = {
+  taskId: string;
+  scheduledFor: string;
+  status: TaskStatus;
+  error?: string;
+  completedAt?: string;
+};
+
+type StoredSchedule = {
+  id: string;
+  name?: string;
+  status: "active" | "paused";
+  operation: string;
+  data?: Record<string, unknown> | null;
+  principal?: Principal;
+  cron?: string;
+  intervalMs?: number;
+  timeoutMs?: number;
+  retry?: RetryPolicy;
+  nextRunAt: number | null;
+  lastRunAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  history: ScheduleRun[];
+};
+
+const clamp = (value: number, min: number, max: number): number => Math.max(min, Math.min(value, max));
+
+const retryPolicy = (policy: RetryPolicy | undefined): Required<RetryPolicy> => ({
+  maxAttempts: clamp(Math.floor(policy?.maxAttempts ?? DEFAULT_RETRY.maxAttempts), 1, MAX_ATTEMPTS),
+  initialDelayMs: clamp(policy?.initialDelayMs ?? DEFAULT_RETRY.initialDelayMs, 0, MAX_DELAY_MS),
+  maxDelayMs: clamp(policy?.maxDelayMs ?? DEFAULT_RETRY.maxDelayMs, 0, MAX_DELAY_MS),
+  backoffMultiplier: clamp(policy?.backoffMultiplier ?? DEFAULT_RETRY.backoffMultiplier, 1, 10),
+  jitter: clamp(policy?.jitter ?? DEFAULT_RETRY.jitter, 0, 1),
+});
+
+const backoffDelay = (policy: Required<RetryPolicy>, attempt: number): number => {
+  const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * policy.backoffMultiplier ** (attempt - 1));
+  return Math.round(base * (1 - policy.jitter * Math.random()));
+};
+
+/** Aborts the signal handed to the operation when the attempt times out so it can stop its own work. */
+const withTimeout = <T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(`Attempt timed out after ${timeoutMs}ms`);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+  return Promise.race([run(controller.signal), timeout]).finally(() => clearTimeout(timer));
+};
+
+const errorText = (result: CallToolResult): string =>
+  result.content
+    .map(item => (item.type === "text" ? item.text : ""))
+    .filter(Boolean)
+    .join("\n") || "Operation failed";
+
 export class LongTaskDurableObject {
   constructor(private readonly state: DurableObjectState, private readonly env: Env) {}
 
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url);
     const path = url.pathname.replace(/\/+$/, "");
+    const owner = request.headers.get(TASK_OWNER_HEADER);
+
+    if (path === "/schedule" || path.startsWith("/schedule/")) {
+      return this.handleScheduleRequest(request, path, owner);
+    }
+
+    const stepMatch = path.match(/^\/task\/([^/]+)\/steps\/([^/]+)$/);
+    if (stepMatch && request.method === "GET") {
+      const task = await this.getTask(stepMatch[1], owner);
+      const step = task?.workflow?.steps.find(candidate => candidate.id === stepMatch[2]);
+      if (!task?.workflow || !step) {
+        return this.json({ error: "Not found" }, 404);
+      }
+      return this.json({ taskId: task.id, step, ...task.workflow.state[step.id] });
+    }
 
     switch (request.method) {
       case "POST":
+        if (path.startsWith("/task/") && path.endsWith("/requeue")) {
+          const id = path.replace("/task/", "").replace("/requeue", "");
+          const task = await this.getTask(id, owner);
+          if (!task) {
+            return this.json({ error: "Not found" }, 404);
+          }
+          if (task.status !== "dead_letter" && task.status !== "cancelled") {
+            return this.json({ error: `Task ${id} is ${task.status} and cannot be requeued` }, 409);
+          }
+          return this.json(this.view(await this.requeueTask(task)));
+        }
+        if (path.startsWith("/task/") && path.endsWith("/subscribe")) {
+          const id = path.replace("/task/", "").replace("/subscribe", "");
+          const subscriber = (await request.json()) as TaskSubscriber;
+          if (!subscriber?.sessionId) {
+            return this.json({ error: "sessionId is required" }, 400);
+          }
+          const task = await this.getTask(id, owner);
+          if (!task) {
+            return this.json({ error: "Not found" }, 404);
+          }
+          this.addSubscriber(task, subscriber);
+          await this.putTask(task);
+          return this.json(this.view(task));
+        }
         if (path === "" || path === "/task") {
           const payload = (await request.json()) as DurableTaskPayload;
-          const task = await this.startTask(payload);
-          return this.json(task, 201);
+          if (!payload?.operation) {
+            return this.json({ error: "operation is required" }, 400);
+          }
+          try {
+            const task = await this.startTask(payload);
+            return this.json(this.view(task), 201);
+          } catch (error) {
+            return this.json({ error: error instanceof Error ? error.message : String(error) }, 400);
+          }
         }
         break;
       case "GET":
         if (path === "" || path === "/task") {
-          const tasks = await this.listTasks();
-          return this.json({ tasks });
+          const status = url.searchParams.get("status");
+          const tasks = (await this.listTasks()).filter(
+            task => this.isOwnedBy(task, owner) && (!status || task.status === status),
+          );
+          return this.json({ tasks: tasks.map(task => this.view(task)) });
         }
         if (path.startsWith("/task/")) {
           const id = path.replace("/task/", "");
-          const task = await this.getTask(id);
+          const task = await this.getTask(id, owner);
           if (!task) {
             return this.json({ error: "Not found" }, 404);
           }
-          return this.json(task);
+          return this.json(this.view(task));
         }
         break;
       case "DELETE":
         if (path.startsWith("/task/")) {
           const id = path.replace("/task/", "");
-          const task = await this.getTask(id);
+          const task = await this.getTask(id, owner);
           if (!task) {
             return this.json({ error: "Not found" }, 404);
           }
-          task.status = "cancelled";
-          task.updatedAt = new Date().toISOString();
-          await this.putTask(task);
-          return this.json(task);
+          if (task.status === "queued" || task.status === "running") {
+            task.status = "cancelled";
+            task.updatedAt = new Date().toISOString();
+            await this.putTask(task);
+          }
+          return this.json(this.view(task));
         }
         break;
       default:
@@ -67,64 +242,533 @@ export class LongTaskDurableObject {
     return this.json({ error: "Unsupported request" }, 405);
   }
 
-  async alarm(): Promise<void> {
-    const now = Date.now();
-    const tasks = await this.listTasks();
-    let nextRunAt: number | undefined;
+  private async handleScheduleRequest(request: Request, path: string, owner: string | null): Promise<Response> {
+    const [, , id, action] = path.split("/");
 
-    for (const task of tasks) {
-      if (task.status === "running" && task.runAt <= now) {
+    if (!id) {
+      if (request.method === "GET") {
+        const schedules = (await this.listSchedules()).filter(schedule => this.isOwnedBy(schedule, owner));
+        return this.json({ schedules: schedules.map(schedule => this.scheduleView(schedule)) });
+      }
+      if (request.method === "POST") {
+        const payload = (await request.json()) as DurableSchedulePayload;
         try {
-          task.status = "completed";
-          task.result = {
-            message: `Operation ${task.operation} completed`,
-            data: task.data ?? null,
-          };
+          const schedule = await this.createSchedule(payload);
+          return this.json(this.scheduleView(schedule), 201);
         } catch (error) {
-          task.status = "failed";
-          task.error = error instanceof Error ? error.message : String(error);
+          return this.json({ error: error instanceof Error ? error.message : String(error) }, 400);
         }
-        task.updatedAt = new Date().toISOString();
+      }
+      return this.json({ error: "Unsupported request" }, 405);
+    }
+
+    const schedule = await this.getSchedule(id);
+    if (!schedule || !this.isOwnedBy(schedule, owner)) {
+      return this.json({ error: "Not found" }, 404);
+    }
+
+    if (request.method === "GET" && !action) {
+      return this.json(this.scheduleView(schedule));
+    }
+    if (request.method === "DELETE" && !action) {
+      await this.state.storage.delete(`${SCHEDULE_PREFIX}${id}`);
+      await this.scheduleAlarm();
+      return this.json({ ...this.scheduleView(schedule), deleted: true });
+    }
+    if (request.method === "POST" && (action === "pause" || action === "resume")) {
+      schedule.status = action === "pause" ? "paused" : "active";
+      schedule.nextRunAt = action === "pause" ? null : this.nextScheduleRun(schedule, Date.now());
+      schedule.updatedAt = new Date().toISOString();
+      await this.putSchedule(schedule);
+      await this.scheduleAlarm();
+      return this.json(this.scheduleView(schedule));
+    }
+
+    return this.json({ error: "Unsupported request" }, 405);
+  }
+
+  /**
+   * Runs the single most overdue task, read fresh from storage, then re-arms the
+   * alarm for whatever is still due. One task per alarm keeps each invocation
+   * short and lets cancellations made while a task runs take effect before the next.
+   */
+  async alarm(): Promise<void> {
+    await this.enqueueScheduledRuns();
+    const now = Date.now();
+    const [next] = (await this.listTasks())
+      .filter(task => (this.dueAt(task) ?? Infinity) <= now)
+      .sort((a, b) => (this.dueAt(a) as number) - (this.dueAt(b) as number));
+
+    if (next?.status === "running" && !next.workflow) {
+      await this.expireLease(next);
+    } else if (next) {
+      await this.runTask(next);
+    }
+
+    await this.scheduleAlarm();
+  }
+
+  /**
+   * When the alarm next needs to look at a task. Workflows stay `running` between
+   * steps so each alarm advances them by one step; any other running task is only
+   * due again once its lease expires.
+   */
+  private dueAt(task: StoredTask): number | null {
+    if (task.status === "queued" || (task.status === "running" && task.workflow)) {
+      return task.runAt;
+    }
+    if (task.status === "running") {
+      return task.leaseExpiresAt ?? task.runAt;
+    }
+    return null;
+  }
+
+  private async expireLease(task: StoredTask): Promise<void> {
+    const progress = this.settleAttempt(task, `Attempt ${task.attempts} did not finish before its lease expired`);
+    await this.putTask(task);
+    await this.recordScheduleRun(task);
+    await this.reportProgress(task, progress, true);
+  }
+
+  /** Applies the outcome of an attempt, queueing a retry with backoff while attempts remain. */
+  private settleAttempt(task: StoredTask, failure?: string): ProgressUpdate {
+    const now = new Date().toISOString();
+    task.updatedAt = now;
+    task.leaseExpiresAt = undefined;
+    if (!failure) {
+      task.status = "completed";
+      task.error = undefined;
+      task.completedAt = now;
+    } else {
+      task.error = failure;
+      task.errors.push({ attempt: task.attempts, error: failure, at: now });
+      if (task.attempts < task.retry.maxAttempts) {
+        task.status = "queued";
+        task.runAt = Date.now() + backoffDelay(task.retry, task.attempts);
+      } else {
+        task.status = "dead_letter";
+        task.completedAt = now;
+      }
+    }
+    task.progress = this.finalProgress(task);
+    return task.progress;
+  }
+
+  private async runTask(task: StoredTask): Promise<void> {
+    if (task.workflow) {
+      await this.runWorkflowStep(task, task.workflow);
+      return;
+    }
+
+    task.status = "running";
+    task.attempts += 1;
+    task.startedAt = new Date().toISOString();
+    task.updatedAt = task.startedAt;
+    task.leaseExpiresAt = Date.now() + task.timeoutMs + LEASE_GRACE_MS;
+    await this.putTask(task);
+    await this.reportProgress(
+      task,
+      { progress: task.progress?.progress ?? 0, total: task.progress?.total, message: `Attempt ${task.attempts} started` },
+      true,
+    );
+
+    const ctx = durableExecutionContext(this.state);
+    let result: CallToolResult | undefined;
+    let failure: string | undefined;
+    try {
+      const executor = await resolveOperation(task.operation, this.env, ctx);
+      if (!executor) {
+        throw new Error(`Unknown operation ${task.operation}`);
+      }
+      result = await withTimeout(
+        signal =>
+          executor({
+            taskId: task.id,
+            operation: task.operation,
+            data: task.data ?? {},
+            env: this.env,
+            executionCtx: ctx,
+            principal: task.principal,
+            progress: update => this.reportProgress(task, update),
+            signal,
+          }),
+        task.timeoutMs,
+      );
+      if (result.isError) {
+        failure = errorText(result);
+      }
+    } catch (error) {
+      failure = error instanceof Error ? error.message : String(error);
+    }
+
+    const latest = (await this.getTask(task.id)) ?? task;
+    if (latest.status === "cancelled") {
+      return;
+    }
+
+    latest.result = result;
+    latest.progress = task.progress;
+    const progress = this.settleAttempt(latest, failure);
+    await this.putTask(latest);
+    await this.recordScheduleRun(latest);
+    await this.reportProgress(latest, progress, true);
+  }
+
+  private async runWorkflowStep(task: StoredTask, workflow: WorkflowState): Promise<void> {
+    const { step, waitUntil } = nextWorkflowStep(workflow, task.data, Date.now());
+    const now = new Date().toISOString();
+    task.status = "running";
+    task.startedAt ??= now;
+    task.updatedAt = now;
+
+    if (!step) {
+      if (waitUntil !== undefined) {
+        task.runAt = waitUntil;
         await this.putTask(task);
-      } else if (task.status === "running") {
-        nextRunAt = nextRunAt ? Math.min(nextRunAt, task.runAt) : task.runAt;
+        return;
       }
+      const failed = failedWorkflowStep(workflow);
+      task.status = failed ? "dead_letter" : "completed";
+      task.error = failed ? `Step ${failed.id} failed: ${workflow.state[failed.id].error}` : undefined;
+      task.completedAt = now;
+      task.result = {
+        isError: Boolean(failed),
+        content: [{ type: "text", text: JSON.stringify(workflowSummary(workflow), null, 2) }],
+      };
+      task.progress = this.finalProgress(task);
+      await this.putTask(task);
+      await this.recordScheduleRun(task);
+      await this.reportProgress(task, task.progress, true);
+      return;
     }
 
-    if (nextRunAt) {
-      await this.state.storage.setAlarm(nextRunAt);
+    const stepState = workflow.state[step.id];
+    stepState.status = "running";
+    stepState.attempts += 1;
+    stepState.startedAt = now;
+    await this.putTask(task);
+    await this.reportProgress(task, this.workflowProgress(workflow, `Step ${step.id} started`), true);
+
+    const ctx = durableExecutionContext(this.state);
+    let result: CallToolResult | undefined;
+    let failure: string | undefined;
+    try {
+      const executor = await resolveOperation(step.tool, this.env, ctx);
+      if (!executor) {
+        throw new Error(`Unknown tool ${step.tool}`);
+      }
+      result = await withTimeout(
+        signal =>
+          executor({
+            taskId: task.id,
+            operation: step.tool,
+            data: renderArgs(step.args ?? {}, workflowScope(workflow, task.data)) as Record<string, unknown>,
+            env: this.env,
+            executionCtx: ctx,
+            principal: task.principal,
+            progress: update =>
+              this.reportProgress(
+                task,
+                this.workflowProgress(workflow, update.message ? `${step.id}: ${update.message}` : undefined),
+              ),
+            signal,
+          }),
+        clamp(step.timeoutMs ?? task.timeoutMs, 1000, MAX_TIMEOUT_MS),
+      );
+      if (result.isError) {
+        failure = errorText(result);
+      }
+    } catch (error) {
+      failure = error instanceof Error ? error.message : String(error);
+    }
+
+    const latest = await this.getTask(task.id);
+    if (!latest || latest.status === "cancelled") {
+      return;
+    }
+
+    const finishedAt = new Date().toISOString();
+    const retry = retryPolicy(step.retry ?? task.retry);
+    stepState.result = result;
+    if (!failure) {
+      stepState.status = "completed";
+      stepState.output = result ? stepOutput(result) : null;
+      stepState.error = undefined;
+      stepState.completedAt = finishedAt;
+    } else {
+      stepState.error = failure;
+      task.errors.push({ attempt: stepState.attempts, error: `${step.id}: ${failure}`, at: finishedAt });
+      if (stepState.attempts < retry.maxAttempts) {
+        stepState.status = "pending";
+        stepState.runAt = Date.now() + backoffDelay(retry, stepState.attempts);
+      } else {
+        stepState.status = "failed";
+        stepState.completedAt = finishedAt;
+      }
+    }
+    task.runAt = Date.now();
+    task.updatedAt = finishedAt;
+    task.subscribers = latest.subscribers;
+    await this.putTask(task);
+    await this.reportProgress(task, this.workflowProgress(workflow, `Step ${step.id} ${stepState.status}`), true);
+  }
+
+  private workflowProgress(workflow: WorkflowState, message?: string): ProgressUpdate {
+    const settled = Object.values(workflow.state).filter(state =>
+      ["completed", "failed", "skipped"].includes(state.status),
+    ).length;
+    return { progress: settled, total: workflow.steps.length, message };
+  }
+
+  private finalProgress(task: StoredTask): ProgressUpdate {
+    const total = task.progress?.total ?? Math.max(task.progress?.progress ?? 0, 1);
+    const message =
+      task.status === "completed" ? "Task completed" : `Task ${task.status.replace("_", " ")}: ${task.error ?? ""}`.trim();
+    return { progress: task.status === "completed" ? total : task.progress?.progress ?? 0, total, message };
+  }
+
+  private addSubscriber(task: StoredTask, subscriber: TaskSubscriber): void {
+    const others = (task.subscribers ?? []).filter(entry => entry.sessionId !== subscriber.sessionId);
+    task.subscribers = [...others, { sessionId: subscriber.sessionId }].slice(-MAX_SUBSCRIBERS);
+  }
+
+  /**
+   * Records progress on the task and tells every subscribed session that
+   * `task://<id>` changed. The request that started the task has usually
+   * finished by now, so its progress token is no longer valid; clients read the
+   * resource instead. Progress never moves backwards, so retries keep the last
+   * reported value.
+   */
+  private async reportProgress(task: StoredTask, update: ProgressUpdate, statusChanged = false): Promise<void> {
+    const current: ProgressUpdate = {
+      progress: Math.max(update.progress, task.progress?.progress ?? 0),
+      total: update.total ?? task.progress?.total,
+      message: update.message,
+    };
+    task.progress = current;
+    if (!statusChanged) {
+      // Status changes are stored by the caller; mid-attempt progress is merged
+      // into the latest copy so a concurrent cancel is not overwritten.
+      const latest = await this.getTask(task.id);
+      if (latest) {
+        latest.progress = current;
+        await this.putTask(latest);
+      }
+    }
+
+    const notification = { method: "notifications/resources/updated" as const, params: { uri: `task://${task.id}` } };
+    await Promise.all(
+      (task.subscribers ?? []).map(subscriber =>
+        McpAgent.notifySession(this.env, SESSION_BINDING, subscriber.sessionId, notification, {
+          subscribed: true,
+        }).catch(error => {
+          console.warn(`Failed to notify session ${subscriber.sessionId} about task ${task.id}`, error);
+          return false;
+        }),
+      ),
+    );
+  }
+
+  private async enqueueScheduledRuns(): Promise<void> {
+    const now = Date.now();
+    for (const schedule of await this.listSchedules()) {
+      if (schedule.status !== "active" || schedule.nextRunAt === null || schedule.nextRunAt > now) {
+        continue;
+      }
+      const task = await this.createTask(
+        {
+          operation: schedule.operation,
+          data: schedule.data,
+          retry: schedule.retry,
+          timeoutMs: schedule.timeoutMs,
+          principal: schedule.principal,
+        },
+        schedule.id,
+      );
+      const history = [
+        { taskId: task.id, scheduledFor: new Date(schedule.nextRunAt).toISOString(), status: task.status },
+        ...schedule.history,
+      ];
+      schedule.history = history.slice(0, SCHEDULE_HISTORY_LIMIT);
+      for (const expired of history.slice(SCHEDULE_HISTORY_LIMIT)) {
+        const expiredTask = await this.getTask(expired.taskId);
+        if (expiredTask && expiredTask.status !== "queued" && expiredTask.status !== "running") {
+          await this.state.storage.delete(`${STORAGE_PREFIX}${expired.taskId}`);
+        }
+      }
+      schedule.lastRunAt = new Date(now).toISOString();
+      schedule.nextRunAt = this.nextScheduleRun(schedule, now);
+      schedule.updatedAt = schedule.lastRunAt;
+      await this.putSchedule(schedule);
+    }
+  }
+
+  private async recordScheduleRun(task: StoredTask): Promise<void> {
+    if (!task.scheduleId) {
+      return;
+    }
+    const schedule = await this.getSchedule(task.scheduleId);
+    const run = schedule?.history.find(entry => entry.taskId === task.id);
+    if (!schedule || !run) {
+      return;
+    }
+    run.status = task.status;
+    run.error = task.error;
+    run.completedAt = task.completedAt;
+    await this.putSchedule(schedule);
+  }
+
+  private async createSchedule(payload: DurableSchedulePayload): Promise<StoredSchedule> {
+    if (!payload?.operation) {
+      throw new Error("operation is required");
+    }
+    if (Boolean(payload.cron) === Boolean(payload.intervalMs)) {
+      throw new Error("Provide exactly one of cron or intervalMs");
+    }
+    if (payload.cron) {
+      parseCron(payload.cron);
+    }
+    if (payload.intervalMs && payload.intervalMs < MIN_INTERVAL_MS) {
+      throw new Error(`intervalMs must be at least ${MIN_INTERVAL_MS}`);
+    }
+
+    const now = new Date().toISOString();
+    const schedule: StoredSchedule = {
+      id: crypto.randomUUID(),
+      name: payload.name,
+      status: "active",
+      operation: payload.operation,
+      data: payload.data ?? null,
+      principal: payload.principal,
+      cron: payload.cron,
+      intervalMs: payload.intervalMs,
+      timeoutMs: payload.timeoutMs,
+      retry: payload.retry,
+      nextRunAt: null,
+      createdAt: now,
+      updatedAt: now,
+      history: [],
+    };
+    schedule.nextRunAt = this.nextScheduleRun(schedule, Date.now());
+
+    await this.putSchedule(schedule);
+    await this.scheduleAlarm();
+    return schedule;
+  }
+
+  private nextScheduleRun(schedule: StoredSchedule, after: number): number {
+    if (schedule.cron) {
+      return nextCronRun(schedule.cron, after);
+    }
+    return after + (schedule.intervalMs ?? MIN_INTERVAL_MS);
+  }
+
+  private async requeueTask(task: StoredTask): Promise<StoredTask> {
+    task.status = "queued";
+    task.attempts = 0;
+    task.runAt = Date.now();
+    task.error = undefined;
+    task.result = undefined;
+    task.completedAt = undefined;
+    task.progress = undefined;
+    task.updatedAt = new Date().toISOString();
+    if (task.workflow) {
+      resetWorkflow(task.workflow, task.runAt);
+    }
+    await this.putTask(task);
+    await this.scheduleAlarm();
+    return task;
+  }
+
+  private async scheduleAlarm(): Promise<void> {
+    const tasks = await this.listTasks();
+    const schedules = await this.listSchedules();
+    const candidates = [
+      ...tasks.map(task => this.dueAt(task)).filter((dueAt): dueAt is number => dueAt !== null),
+      ...schedules.filter(schedule => schedule.status === "active" && schedule.nextRunAt !== null).map(
+        schedule => schedule.nextRunAt as number,
+      ),
+    ];
+    if (candidates.length) {
+      await this.state.storage.setAlarm(Math.max(Math.min(...candidates), Date.now()));
     }
   }
 
   private async startTask(payload: DurableTaskPayload): Promise<StoredTask> {
+    const task = await this.createTask(payload);
+    await this.scheduleAlarm();
+    return task;
+  }
+
+  private async createTask(payload: DurableTaskPayload, scheduleId?: string): Promise<StoredTask> {
+    if (payload.workflow) {
+      validateWorkflow(payload.workflow);
+    }
     const id = crypto.randomUUID();
-    const durationMs = Math.max(100, Math.min(payload.durationMs ?? 1500, 60_000));
+    const delayMs = Math.max(0, Math.min(payload.delayMs ?? 0, MAX_DELAY_MS));
     const now = new Date();
-    const runAt = Date.now() + durationMs;
 
     const task: StoredTask = {
       id,
-      status: "running",
-      operation: payload.operation,
+      status: "queued",
+      operation: payload.workflow ? WORKFLOW_OPERATION : payload.operation,
       data: payload.data ?? null,
+      principal: payload.principal,
+      scheduleId,
       createdAt: now.toISOString(),
       updatedAt: now.toISOString(),
-      runAt,
-      durationMs,
+      runAt: Date.now() + delayMs,
+      attempts: 0,
+      retry: retryPolicy(payload.retry),
+      timeoutMs: clamp(payload.timeoutMs ?? DEFAULT_TIMEOUT_MS, 1000, MAX_TIMEOUT_MS),
+      errors: [],
+      workflow: payload.workflow ? createWorkflowState(payload.workflow, Date.now() + delayMs) : undefined,
+      subscribers: payload.subscriber?.sessionId ? [payload.subscriber] : undefined,
     };
 
     await this.putTask(task);
-    await this.state.storage.setAlarm(runAt);
     return task;
   }
 
+  private view(task: StoredTask): Omit<StoredTask, "principal" | "subscribers"> & { owner?: string } {
+    const { principal, subscribers, ...rest } = task;
+    return { ...rest, owner: principal?.id };
+  }
+
+  /** Requests without an owner header come from inside the worker and see everything. */
+  private isOwnedBy(record: { principal?: Principal }, owner: string | null): boolean {
+    return owner === null || taskOwnerId(record.principal) === owner;
+  }
+
+  private scheduleView(schedule: StoredSchedule): Omit<StoredSchedule, "principal" | "nextRunAt"> & {
+    owner?: string;
+    nextRunAt: string | null;
+  } {
+    const { principal, nextRunAt, ...rest } = schedule;
+    return { ...rest, owner: principal?.id, nextRunAt: nextRunAt === null ? null : new Date(nextRunAt).toISOString() };
+  }
+
+  private async listSchedules(): Promise<StoredSchedule[]> {
+    const entries = await this.state.storage.list<StoredSchedule>({ prefix: SCHEDULE_PREFIX });
+    return [...entries.values()].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  private async getSchedule(id: string): Promise<StoredSchedule | null> {
+    return (await this.state.storage.get<StoredSchedule>(`${SCHEDULE_PREFIX}${id}`)) ?? null;
+  }
+
+  private async putSchedule(schedule: StoredSchedule): Promise<void> {
+    await this.state.storage.put(`${SCHEDULE_PREFIX}${schedule.id}`, schedule);
+  }
+
   private async listTasks(): Promise<StoredTask[]> {
     const entries = await this.state.storage.list<StoredTask>({ prefix: STORAGE_PREFIX });
     return [...entries.values()].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
   }
 
-  private async getTask(id: string): Promise<StoredTask | null> {
-    return (await this.state.storage.get<StoredTask>(`${STORAGE_PREFIX}${id}`)) ?? null;
+  private async getTask(id: string, owner: string | null = null): Promise<StoredTask | null> {
+    const task = await this.state.storage.get<StoredTask>(`${STORAGE_PREFIX}${id}`);
+    return task && this.isOwnedBy(task, owner) ? task : null;
   }
 
   private async putTask(task: StoredTask): Promise<void> {
@@ -0,0 +1,29 @@
+import type { DurableObjectState } from "@cloudflare/workers-types";
+import { MyMCP } from "../agents/my-mcp";
+import type { SessionRecord, SessionStore } from "../agents/mcp";
+import type { Env } from "../types";
+import { durableExecutionContext } from "./helpers";
+
+const SESSION_KEY = "session";
+
+export class McpSessionDurableObject {
+  constructor(private readonly state: DurableObjectState, private readonly env: Env) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const agent = MyMCP.shared();
+    return agent.handleSessionRequest(request, this.env, durableExecutionContext(this.state), this.sessionStore());
+  }
+
+  private sessionStore(): SessionStore {
+    const storage = this.state.storage;
+    return {
+      get: () => storage.get<SessionRecord>(SESSION_KEY),
+      put: async record => {
+        await storage.put(SESSION_KEY, record);
+      },
+      delete: async () => {
+        await storage.delete(SESSION_KEY);
+      },
+    };
+  }
+}
@@ -0,0 +1,60 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types";
+import { MyMCP } from "../agents/my-mcp";
+import type { ProgressReporter } from "../agents/mcp";
+import type { Env, Principal } from "../types";
+
+export type OperationContext = {
+  taskId: string;
+  operation: string;
+  data: Record<string, unknown>;
+  env: Env;
+  executionCtx: ExecutionContext;
+  principal?: Principal;
+  progress: ProgressReporter;
+  /** Aborted when the attempt times out; long operations should stop instead of retrying their own work. */
+  signal: AbortSignal;
+};
+
+export type OperationExecutor = (context: OperationContext) => Promise<CallToolResult>;
+
+const TOOL_PREFIX = "tool:";
+
+const operations = new Map<string, OperationExecutor>();
+
+export const registerOperation = (name: string, executor: OperationExecutor): void => {
+  if (operations.has(name)) {
+    throw new Error(`Operation ${name} already registered`);
+  }
+  operations.set(name, executor);
+};
+
+const invokeTool = (name: string): OperationExecutor => async context => {
+  const agent = MyMCP.shared();
+  return agent.invokeTool(
+    name,
+    context.data,
+    undefined,
+    context.env,
+    context.executionCtx,
+    context.principal,
+    context.progress,
+    context.signal,
+  );
+};
+
+export const resolveOperation = async (
+  operation: string,
+  env: Env,
+  ctx: ExecutionContext,
+): Promise<OperationExecutor | null> => {
+  const registered = operations.get(operation);
+  if (registered) {
+    return registered;
+  }
+
+  const toolName = operation.startsWith(TOOL_PREFIX) ? operation.slice(TOOL_PREFIX.length) : operation;
+  const agent = MyMCP.shared();
+  await agent.ready(env, ctx);
+  const tools = await agent.listTools();
+  return tools.some(tool => tool.name === toolName) ? invokeTool(toolName) : null;
+};
@@ -0,0 +1,83 @@
+import { Hono } from "hono";
+import type { Context } from "hono";
+import { MyMCP } from "../agents/my-mcp";
+import { requireAuth } from "../auth";
+import { ToolPermissionError } from "../auth/policy";
+import type { AppBindings } from "../types";
+import { LONG_TASK_BASE, longTaskStub, taskOwnerHeaders } from "./helpers";
+
+const forward = async (
+  c: Context<AppBindings>,
+  action: string,
+  path: string,
+  init?: { method: string; headers?: Record<string, string>; body?: string },
+  args: Record<string, unknown> = {},
+): Promise<Response> => {
+  const agent = MyMCP.shared();
+  await agent.ready(c.env, c.executionCtx);
+  try {
+    agent.assertToolAllowed(c.get("principal"), "durable_task", { action, ...args });
+  } catch (error) {
+    if (error instanceof ToolPermissionError) {
+      return c.json({ error: error.message }, 403);
+    }
+    throw error;
+  }
+
+  const response = await longTaskStub(c.env).fetch(`${LONG_TASK_BASE}${path}`, {
+    ...init,
+    headers: { ...init?.headers, ...taskOwnerHeaders(c.get("principal")) },
+  });
+  return new Response(response.body as unknown as ReadableStream, {
+    status: response.status,
+    headers: { "content-type": "application/json" },
+  });
+};
+
+export const scheduleRoutes = new Hono<AppBindings>();
+
+scheduleRoutes.use("*", requireAuth);
+
+scheduleRoutes.get("/", c => forward(c, "schedule_list", "/schedule"));
+
+scheduleRoutes.post("/", async c => {
+  let body: Record<string, unknown>;
+  try {
+    body = await c.req.json();
+  } catch (error) {
+    return c.json({ error: `Invalid JSON body: ${error instanceof Error ? error.message : String(error)}` }, 400);
+  }
+  return forward(
+    c,
+    "schedule_create",
+    "/schedule",
+    {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ ...body, principal: c.get("principal") }),
+    },
+    { schedule: body },
+  );
+});
+
+scheduleRoutes.get("/:id", c =>
+  forward(c, "schedule_get", `/schedule/${c.req.param("id")}`, undefined, { scheduleId: c.req.param("id") }),
+);
+
+scheduleRoutes.post("/:id/pause", c =>
+  forward(c, "schedule_pause", `/schedule/${c.req.param("id")}/pause`, { method: "POST" }, {
+    scheduleId: c.req.param("id"),
+  }),
+);
+
+scheduleRoutes.post("/:id/resume", c =>
+  forward(c, "schedule_resume", `/schedule/${c.req.param("id")}/resume`, { method: "POST" }, {
+    scheduleId: c.req.param("id"),
+  }),
+);
+
+scheduleRoutes.delete("/:id", c =>
+  forward(c, "schedule_delete", `/schedule/${c.req.param("id")}`, { method: "DELETE" }, {
+    scheduleId: c.req.param("id"),
+  }),
+);
@@ -0,0 +1,50 @@
+import type { D1Database } from "@cloudflare/workers-types";
+import type { SubscriptionRegistry } from "../agents/mcp";
+
+const SUBSCRIPTION_TABLE = "resource_subscriptions";
+
+export const ensureSubscriptionTable = async (db: D1Database): Promise<void> => {
+  await db.batch([
+    db.prepare(
+      `CREATE TABLE IF NOT EXISTS ${SUBSCRIPTION_TABLE} (
+        uri TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (uri, session_id)
+      )`,
+    ),
+    db.prepare(`CREATE INDEX IF NOT EXISTS ${SUBSCRIPTION_TABLE}_session ON ${SUBSCRIPTION_TABLE} (session_id)`),
+  ]);
+};
+
+/** Resource subscriptions of every session, keyed by URI, so any session's Durable Object can fan out updates. */
+export const d1SubscriptionRegistry = (db: D1Database): SubscriptionRegistry => ({
+  async add(uri, sessionId) {
+    await ensureSubscriptionTable(db);
+    await db
+      .prepare(`INSERT OR IGNORE INTO ${SUBSCRIPTION_TABLE} (uri, session_id, created_at) VALUES (?, ?, ?)`)
+      .bind(uri, sessionId, new Date().toISOString())
+      .run();
+  },
+  async remove(uri, sessionId) {
+    await ensureSubscriptionTable(db);
+    await db.prepare(`DELETE FROM ${SUBSCRIPTION_TABLE} WHERE uri = ? AND session_id = ?`).bind(uri, sessionId).run();
+  },
+  async removeSession(sessionId) {
+    await ensureSubscriptionTable(db);
+    await db.prepare(`DELETE FROM ${SUBSCRIPTION_TABLE} WHERE session_id = ?`).bind(sessionId).run();
+  },
+  async subscribers(match) {
+    await ensureSubscriptionTable(db);
+    const rows =
+      typeof match === "string"
+        ? await db
+            .prepare(`SELECT uri, session_id FROM ${SUBSCRIPTION_TABLE} WHERE uri = ?`)
+            .bind(match)
+            .all<{ uri: string; session_id: string }>()
+        : await db.prepare(`SELECT uri, session_id FROM ${SUBSCRIPTION_TABLE}`).all<{ uri: string; session_id: string }>();
+    return rows.results
+      .filter(row => typeof match === "string" || match(row.uri))
+      .map(row => ({ uri: row.uri, sessionId: row.session_id }));
+  },
+});
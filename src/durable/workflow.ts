@@ -0,0 +1,279 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types";
+import type { WorkflowCondition, WorkflowDefinition, WorkflowStep } from "../types";
+
+export const WORKFLOW_OPERATION = "workflow";
+
+const MAX_STEPS = 50;
+const STEP_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const TEMPLATE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const STEP_REFERENCE_PATTERN = /\{\{\s*steps\.([A-Za-z0-9_-]+)/g;
+
+export type WorkflowStepStatus = "pending" | "running" | "completed" | "failed" | "skipped";
+
+export type WorkflowStepState = {
+  status: WorkflowStepStatus;
+  attempts: number;
+  runAt: number;
+  startedAt?: string;
+  completedAt?: string;
+  output?: unknown;
+  result?: CallToolResult;
+  error?: string;
+  reason?: string;
+};
+
+export type WorkflowState = {
+  name?: string;
+  steps: WorkflowStep[];
+  state: Record<string, WorkflowStepState>;
+};
+
+type WorkflowScope = {
+  input: Record<string, unknown>;
+  steps: Record<string, { status: WorkflowStepStatus; output?: unknown; error?: string }>;
+};
+
+const referencedSteps = (step: WorkflowStep): string[] => {
+  const references = [...JSON.stringify(step.args ?? {}).matchAll(STEP_REFERENCE_PATTERN)].map(match => match[1]);
+  if (step.when?.ref.startsWith("steps.")) {
+    references.push(step.when.ref.split(".")[1]);
+  }
+  return references;
+};
+
+/**
+ * Checks step ids, dependencies and template references, and rejects cycles.
+ * Steps may only reference outputs of steps they (transitively) depend on.
+ */
+export const validateWorkflow = (definition: WorkflowDefinition): void => {
+  const steps = definition?.steps;
+  if (!Array.isArray(steps) || steps.length === 0) {
+    throw new Error("workflow.steps must contain at least one step");
+  }
+  if (steps.length > MAX_STEPS) {
+    throw new Error(`workflow.steps cannot contain more than ${MAX_STEPS} steps`);
+  }
+
+  const byId = new Map<string, WorkflowStep>();
+  for (const step of steps) {
+    if (!step?.id || !STEP_ID_PATTERN.test(step.id)) {
+      throw new Error(`Invalid step id ${JSON.stringify(step?.id)}`);
+    }
+    if (!step.tool) {
+      throw new Error(`Step ${step.id} must name a tool`);
+    }
+    if (byId.has(step.id)) {
+      throw new Error(`Duplicate step id ${step.id}`);
+    }
+    byId.set(step.id, step);
+  }
+
+  for (const step of steps) {
+    for (const dependency of step.dependsOn ?? []) {
+      if (!byId.has(dependency)) {
+        throw new Error(`Step ${step.id} depends on unknown step ${dependency}`);
+      }
+    }
+  }
+
+  const ancestors = new Map<string, Set<string>>();
+  const visiting = new Set<string>();
+  const collect = (id: string): Set<string> => {
+    const known = ancestors.get(id);
+    if (known) {
+      return known;
+    }
+    if (visiting.has(id)) {
+      throw new Error(`Workflow contains a dependency cycle through ${id}`);
+    }
+    visiting.add(id);
+    const result = new Set<string>();
+    for (const dependency of byId.get(id)?.dependsOn ?? []) {
+      result.add(dependency);
+      collect(dependency).forEach(ancestor => result.add(ancestor));
+    }
+    visiting.delete(id);
+    ancestors.set(id, result);
+    return result;
+  };
+
+  for (const step of steps) {
+    const upstream = collect(step.id);
+    for (const reference of referencedSteps(step)) {
+      if (!upstream.has(reference)) {
+        throw new Error(`Step ${step.id} references ${reference}, which is not one of its dependencies`);
+      }
+    }
+  }
+};
+
+export const createWorkflowState = (definition: WorkflowDefinition, now: number): WorkflowState => ({
+  name: definition.name,
+  steps: definition.steps,
+  state: Object.fromEntries(
+    definition.steps.map(step => [step.id, { status: "pending" as const, attempts: 0, runAt: now }]),
+  ),
+});
+
+/** Puts every step that has not completed back into the pending state. */
+export const resetWorkflow = (workflow: WorkflowState, now: number): void => {
+  for (const state of Object.values(workflow.state)) {
+    if (state.status === "completed") {
+      continue;
+    }
+    state.status = "pending";
+    state.attempts = 0;
+    state.runAt = now;
+    state.error = undefined;
+    state.reason = undefined;
+    state.result = undefined;
+    state.completedAt = undefined;
+  }
+};
+
+export const workflowScope = (workflow: WorkflowState, input: Record<string, unknown> | null | undefined): WorkflowScope => ({
+  input: input ?? {},
+  steps: Object.fromEntries(
+    Object.entries(workflow.state).map(([id, state]) => [
+      id,
+      { status: state.status, output: state.output, error: state.error },
+    ]),
+  ),
+});
+
+const lookup = (scope: WorkflowScope, path: string): unknown =>
+  path.split(".").reduce<unknown>((value, key) => {
+    if (value === null || value === undefined || typeof value !== "object") {
+      return undefined;
+    }
+    return (value as Record<string, unknown>)[key];
+  }, scope);
+
+/**
+ * Replaces `{{input.x}}` and `{{steps.id.output.x}}` placeholders. A string that is
+ * a single placeholder keeps the referenced value's type.
+ */
+export const renderArgs = (value: unknown, scope: WorkflowScope): unknown => {
+  if (typeof value === "string") {
+    const whole = value.match(/^\{\{\s*([^{}]+?)\s*\}\}$/);
+    if (whole) {
+      return lookup(scope, whole[1]);
+    }
+    return value.replace(TEMPLATE_PATTERN, (_, path: string) => {
+      const resolved = lookup(scope, path);
+      if (resolved === undefined || resolved === null) {
+        return "";
+      }
+      return typeof resolved === "string" ? resolved : JSON.stringify(resolved);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => renderArgs(item, scope));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderArgs(item, scope)]));
+  }
+  return value;
+};
+
+const sameValue = (left: unknown, right: unknown): boolean => JSON.stringify(left) === JSON.stringify(right);
+
+const conditionHolds = (condition: WorkflowCondition, scope: WorkflowScope): boolean => {
+  const value = lookup(scope, condition.ref);
+  if (condition.exists !== undefined) {
+    return (value !== undefined && value !== null) === condition.exists;
+  }
+  if (condition.equals !== undefined) {
+    return sameValue(value, condition.equals);
+  }
+  if (condition.notEquals !== undefined) {
+    return !sameValue(value, condition.notEquals);
+  }
+  return Boolean(value);
+};
+
+/** Structured content when present, otherwise the first text item parsed as JSON if possible. */
+export const stepOutput = (result: CallToolResult): unknown => {
+  if (result.structuredContent) {
+    return result.structuredContent;
+  }
+  const text = result.content.find(item => item.type === "text");
+  if (!text || text.type !== "text") {
+    return null;
+  }
+  try {
+    return JSON.parse(text.text);
+  } catch {
+    return text.text;
+  }
+};
+
+const blocksDependents = (step: WorkflowStep, state: WorkflowStepState): boolean =>
+  state.status === "skipped" || (state.status === "failed" && !step.continueOnError);
+
+/**
+ * Skips steps whose dependencies failed or whose condition does not hold, then
+ * returns the first runnable step. A step left `running` by an evicted object is
+ * runnable again. `waitUntil` is set when the only runnable steps are backing off.
+ */
+export const nextWorkflowStep = (
+  workflow: WorkflowState,
+  input: Record<string, unknown> | null | undefined,
+  now: number,
+): { step?: WorkflowStep; waitUntil?: number } => {
+  const byId = new Map(workflow.steps.map(step => [step.id, step]));
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const step of workflow.steps) {
+      const state = workflow.state[step.id];
+      if (state.status !== "pending") {
+        continue;
+      }
+      const dependencies = step.dependsOn ?? [];
+      const blocked = dependencies.find(id => blocksDependents(byId.get(id) as WorkflowStep, workflow.state[id]));
+      if (blocked) {
+        state.status = "skipped";
+        state.reason = `Dependency ${blocked} ${workflow.state[blocked].status === "skipped" ? "was skipped" : "failed"}`;
+        changed = true;
+        continue;
+      }
+      const settled = dependencies.every(id => ["completed", "failed"].includes(workflow.state[id].status));
+      if (settled && step.when && !conditionHolds(step.when, workflowScope(workflow, input))) {
+        state.status = "skipped";
+        state.reason = "Condition not met";
+        changed = true;
+      }
+    }
+  }
+
+  let waitUntil: number | undefined;
+  for (const step of workflow.steps) {
+    const state = workflow.state[step.id];
+    if (state.status !== "pending" && state.status !== "running") {
+      continue;
+    }
+    const ready = (step.dependsOn ?? []).every(id => ["completed", "failed"].includes(workflow.state[id].status));
+    if (!ready) {
+      continue;
+    }
+    if (state.runAt <= now) {
+      return { step };
+    }
+    waitUntil = Math.min(waitUntil ?? state.runAt, state.runAt);
+  }
+  return { waitUntil };
+};
+
+export const failedWorkflowStep = (workflow: WorkflowState): WorkflowStep | undefined =>
+  workflow.steps.find(step => workflow.state[step.id].status === "failed" && !step.continueOnError);
+
+export const workflowSummary = (workflow: WorkflowState): Record<string, unknown> => ({
+  name: workflow.name,
+  steps: Object.fromEntries(
+    workflow.steps.map(step => {
+      const { status, output, error, reason } = workflow.state[step.id];
+      return [step.id, { status, output, error, reason }];
+    }),
+  ),
+});
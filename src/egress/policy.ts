@@ -0,0 +1,274 @@
+import type { Fetcher, RequestInit as CfRequestInit } from "@cloudflare/workers-types";
+import type { Env } from "../types";
+
+const DEFAULT_MAX_RESPONSE_BYTES = 10 * 1024 * 1024;
+const DEFAULT_TIMEOUT_MS = 30_000;
+const MAX_REDIRECTS = 5;
+
+/** Caller-supplied headers may not set credentials, spoof the client or change framing. */
+const FORBIDDEN_HEADERS = new Set([
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "host",
+  "forwarded",
+  "x-real-ip",
+  "true-client-ip",
+  "content-length",
+  "transfer-encoding",
+  "connection",
+  "upgrade",
+  "te",
+]);
+const FORBIDDEN_HEADER_PREFIXES = ["x-forwarded-", "cf-", "proxy-"];
+
+const BLOCKED_HOST_SUFFIXES = [".localhost", ".local", ".internal", ".home.arpa"];
+
+/** CIDR blocks that must never be reachable: private, loopback, link-local (cloud metadata), CGNAT, multicast, reserved. */
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+export type EgressPolicy = {
+  allowHosts: string[];
+  denyHosts: string[];
+  allowPrivate: boolean;
+  maxResponseBytes: number;
+  timeoutMs: number;
+};
+
+/** Raised when an outbound request or its response violates the egress policy. */
+export class EgressError extends Error {}
+
+const hostList = (value: string | undefined): string[] =>
+  (value ?? "")
+    .split(",")
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean);
+
+const positiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = value ? Number.parseInt(value, 10) : Number.NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Reads the policy from EGRESS_ALLOW_HOSTS and EGRESS_DENY_HOSTS (comma-separated
+ * hosts, `*.example.com` for subdomains), EGRESS_ALLOW_PRIVATE, EGRESS_MAX_RESPONSE_BYTES
+ * and EGRESS_TIMEOUT_MS. An empty allowlist allows every public host.
+ */
+export const egressPolicy = (env: Env): EgressPolicy => ({
+  allowHosts: hostList(env.EGRESS_ALLOW_HOSTS),
+  denyHosts: hostList(env.EGRESS_DENY_HOSTS),
+  allowPrivate: env.EGRESS_ALLOW_PRIVATE === "true",
+  maxResponseBytes: positiveInt(env.EGRESS_MAX_RESPONSE_BYTES, DEFAULT_MAX_RESPONSE_BYTES),
+  timeoutMs: positiveInt(env.EGRESS_TIMEOUT_MS, DEFAULT_TIMEOUT_MS),
+});
+
+const matchesHost = (pattern: string, host: string): boolean =>
+  pattern.startsWith("*.") ? host.endsWith(pattern.slice(1)) : host === pattern;
+
+const ipv4Number = (address: string): number | undefined => {
+  const parts = address.split(".");
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+    return undefined;
+  }
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+};
+
+const isBlockedIpv4 = (address: string): boolean => {
+  const value = ipv4Number(address);
+  if (value === undefined) {
+    return false;
+  }
+  return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits);
+    const start = ipv4Number(base) as number;
+    return value >= start && value < start + size;
+  });
+};
+
+/** Expands an IPv6 literal (already normalized by the URL parser) to eight 16-bit groups. */
+const ipv6Groups = (address: string): number[] | undefined => {
+  const [head, tail] = address.includes("::") ? address.split("::") : [address, undefined];
+  const parse = (part: string | undefined) => (part ? part.split(":") : []);
+  const left = parse(head);
+  const right = parse(tail);
+  const fill = tail === undefined ? 0 : 8 - left.length - right.length;
+  const groups = [...left, ...new Array<string>(Math.max(fill, 0)).fill("0"), ...right].map(group =>
+    Number.parseInt(group, 16),
+  );
+  return groups.length === 8 && groups.every(group => Number.isFinite(group)) ? groups : undefined;
+};
+
+const isBlockedIpv6 = (address: string): boolean => {
+  const groups = ipv6Groups(address);
+  if (!groups) {
+    return true;
+  }
+  const embeddedIpv4 = `${groups[6] >> 8}.${groups[6] & 255}.${groups[7] >> 8}.${groups[7] & 255}`;
+  const prefixZero = groups.slice(0, 5).every(group => group === 0);
+  if (prefixZero && (groups[5] === 0xffff || groups[5] === 0)) {
+    // ::, ::1, IPv4-mapped and IPv4-compatible addresses.
+    return groups[5] === 0 && groups[6] === 0 ? true : isBlockedIpv4(embeddedIpv4);
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b) {
+    return isBlockedIpv4(embeddedIpv4);
+  }
+  return (groups[0] & 0xfe00) === 0xfc00 || (groups[0] & 0xffc0) === 0xfe80 || (groups[0] & 0xff00) === 0xff00;
+};
+
+/** Why the host may not be contacted, or null when it may. */
+const hostViolation = (policy: EgressPolicy, host: string): string | null => {
+  if (policy.denyHosts.some(pattern => matchesHost(pattern, host))) {
+    return "host is on the deny list";
+  }
+  if (policy.allowHosts.length && !policy.allowHosts.some(pattern => matchesHost(pattern, host))) {
+    return "host is not on the allow list";
+  }
+  if (policy.allowPrivate) {
+    return null;
+  }
+  if (host.startsWith("[")) {
+    return isBlockedIpv6(host.slice(1, -1)) ? "private or reserved IPv6 address" : null;
+  }
+  if (ipv4Number(host) !== undefined) {
+    return isBlockedIpv4(host) ? "private or reserved IPv4 address" : null;
+  }
+  if (host === "localhost" || BLOCKED_HOST_SUFFIXES.some(suffix => host.endsWith(suffix)) || !host.includes(".")) {
+    return "internal host name";
+  }
+  return null;
+};
+
+/** Throws EgressError unless the URL is an http(s) URL to a host the policy allows. */
+export const assertEgressAllowed = (policy: EgressPolicy, target: string): URL => {
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    throw new EgressError(`Egress blocked: ${target} is not a valid URL.`);
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new EgressError(`Egress blocked for ${target}: only http and https are allowed.`);
+  }
+  if (url.username || url.password) {
+    throw new EgressError(`Egress blocked for ${url.host}: credentials in URLs are not allowed.`);
+  }
+  const reason = hostViolation(policy, url.hostname.toLowerCase());
+  if (reason) {
+    throw new EgressError(`Egress blocked for ${url.hostname}: ${reason}.`);
+  }
+  return url;
+};
+
+/** Rejects caller-supplied headers that could carry credentials or spoof the client. */
+export const assertHeadersAllowed = (headers: Record<string, string> | undefined): void => {
+  const forbidden = Object.keys(headers ?? {}).filter(name => {
+    const lower = name.toLowerCase();
+    return FORBIDDEN_HEADERS.has(lower) || FORBIDDEN_HEADER_PREFIXES.some(prefix => lower.startsWith(prefix));
+  });
+  if (forbidden.length) {
+    throw new EgressError(`Headers may not be set by the caller: ${forbidden.join(", ")}.`);
+  }
+};
+
+const readLimited = async (response: Response, maxBytes: number, url: string): Promise<ArrayBuffer> => {
+  const declared = Number(response.headers.get("content-length") ?? Number.NaN);
+  if (Number.isFinite(declared) && declared > maxBytes) {
+    throw new EgressError(`Response from ${url} is ${declared} bytes, over the ${maxBytes} byte limit.`);
+  }
+  if (!response.body) {
+    return new ArrayBuffer(0);
+  }
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new EgressError(`Response from ${url} exceeded the ${maxBytes} byte limit.`);
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes.buffer;
+};
+
+export type EgressRequestInit = {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+};
+
+/**
+ * The single path for outbound HTTP: checks the URL (and every redirect target)
+ * against the policy, aborts after the timeout and buffers the body up to
+ * maxResponseBytes. Pass a binding as `fetcher` to send through it instead of
+ * the global fetch.
+ */
+export const egressFetch = async (
+  policy: EgressPolicy,
+  target: string,
+  init: EgressRequestInit = {},
+  options: { fetcher?: Fetcher; timeoutMs?: number } = {},
+): Promise<Response> => {
+  const controller = new AbortController();
+  const timeoutMs = options.timeoutMs ?? policy.timeoutMs;
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    let url = assertEgressAllowed(policy, target).toString();
+    let request = { ...init };
+    for (let redirects = 0; ; redirects += 1) {
+      const requestInit = { ...request, redirect: "manual" as const, signal: controller.signal };
+      const response = options.fetcher
+        ? ((await options.fetcher.fetch(url, requestInit as unknown as CfRequestInit)) as unknown as Response)
+        : await fetch(url, requestInit);
+
+      const location = response.headers.get("location");
+      if (response.status >= 300 && response.status < 400 && location) {
+        if (redirects >= MAX_REDIRECTS) {
+          throw new EgressError(`Too many redirects starting at ${target}.`);
+        }
+        await response.body?.cancel();
+        url = assertEgressAllowed(policy, new URL(location, url).toString()).toString();
+        const method = (request.method ?? "GET").toUpperCase();
+        if (response.status === 303 || ((response.status === 301 || response.status === 302) && method === "POST")) {
+          request = { ...request, method: "GET", body: undefined };
+        }
+        continue;
+      }
+
+      const nullBody = [101, 204, 205, 304].includes(response.status);
+      const body = nullBody ? null : await readLimited(response, policy.maxResponseBytes, url);
+      return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+    }
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new EgressError(`Request to ${target} timed out after ${timeoutMs}ms.`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -0,0 +1,52 @@
+export type ChunkOptions = {
+  chunkSize?: number;
+  overlap?: number;
+};
+
+export const DEFAULT_CHUNK_SIZE = 1000;
+export const DEFAULT_CHUNK_OVERLAP = 100;
+
+/** Prefer paragraph, then sentence, then word boundaries in the second half of a window. */
+const breakPoint = (text: string, start: number, end: number): number => {
+  if (end >= text.length) {
+    return text.length;
+  }
+  const window = text.slice(start, end);
+  const minimum = Math.floor(window.length / 2);
+  for (const pattern of [/\n\s*\n/g, /[.!?]\s/g, /\s/g]) {
+    let last = -1;
+    for (const match of window.matchAll(pattern)) {
+      if (match.index !== undefined && match.index >= minimum) {
+        last = match.index + match[0].length;
+      }
+    }
+    if (last !== -1) {
+      return start + last;
+    }
+  }
+  return end;
+};
+
+/** Splits text into overlapping chunks of at most `chunkSize` characters. */
+export const chunkText = (text: string, options: ChunkOptions = {}): string[] => {
+  const chunkSize = Math.max(options.chunkSize ?? DEFAULT_CHUNK_SIZE, 100);
+  const overlap = Math.min(Math.max(options.overlap ?? DEFAULT_CHUNK_OVERLAP, 0), Math.floor(chunkSize / 2));
+  const normalized = text.replace(/\r\n/g, "\n").trim();
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < normalized.length) {
+    const end = breakPoint(normalized, start, start + chunkSize);
+    const chunk = normalized.slice(start, end).trim();
+    if (chunk) {
+      chunks.push(chunk);
+    }
+    if (end >= normalized.length) {
+      break;
+    }
+    // Start the overlap on a word boundary so chunks do not begin mid-word.
+    const overlapStart = end - overlap;
+    const boundary = normalized.slice(overlapStart, end).search(/\s/);
+    start = Math.max(boundary === -1 ? overlapStart : overlapStart + boundary + 1, start + 1);
+  }
+  return chunks;
+};
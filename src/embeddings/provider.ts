@@ -0,0 +1,128 @@
+import type { Ai } from "@cloudflare/workers-types";
+import { egressFetch, egressPolicy, type EgressRequestInit } from "../egress/policy";
+import type { Env } from "../types";
+
+const DEFAULT_WORKERS_AI_MODEL = "@cf/baai/bge-base-en-v1.5";
+const DEFAULT_OPENAI_MODEL = "text-embedding-3-small";
+const DEFAULT_LOCAL_DIMENSIONS = 768;
+const BATCH_SIZE = 50;
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const inBatches = async (texts: string[], embed: (batch: string[]) => Promise<number[][]>): Promise<number[][]> => {
+  const vectors: number[][] = [];
+  for (let index = 0; index < texts.length; index += BATCH_SIZE) {
+    vectors.push(...(await embed(texts.slice(index, index + BATCH_SIZE))));
+  }
+  return vectors;
+};
+
+export const workersAiProvider = (ai: Ai, model = DEFAULT_WORKERS_AI_MODEL): EmbeddingProvider => ({
+  name: "workers-ai",
+  model,
+  embed: texts =>
+    inBatches(texts, async batch => {
+      const runner = ai as unknown as { run(model: string, inputs: { text: string[] }): Promise<{ data?: number[][] }> };
+      const output = await runner.run(model, { text: batch });
+      if (!output.data || output.data.length !== batch.length) {
+        throw new Error(`Workers AI model ${model} did not return ${batch.length} embeddings.`);
+      }
+      return output.data;
+    }),
+});
+
+/** Any endpoint that implements the OpenAI `POST /embeddings` contract. */
+export const openAiCompatibleProvider = (options: {
+  baseUrl: string;
+  apiKey?: string;
+  model?: string;
+  dimensions?: number;
+  fetcher?: (url: string, init: EgressRequestInit) => Promise<Response>;
+}): EmbeddingProvider => {
+  const model = options.model ?? DEFAULT_OPENAI_MODEL;
+  const endpoint = `${options.baseUrl.replace(/\/+$/, "")}/embeddings`;
+  return {
+    name: "openai",
+    model,
+    embed: texts =>
+      inBatches(texts, async batch => {
+        const send = options.fetcher ?? ((url: string, init: EgressRequestInit) => fetch(url, init));
+        const response = await send(endpoint, {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            ...(options.apiKey ? { authorization: `Bearer ${options.apiKey}` } : {}),
+          },
+          body: JSON.stringify({ model, input: batch, dimensions: options.dimensions }),
+        });
+        if (!response.ok) {
+          throw new Error(`Embedding request failed with ${response.status}: ${await response.text()}`);
+        }
+        const payload = (await response.json()) as { data: Array<{ index: number; embedding: number[] }> };
+        return [...payload.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+      }),
+  };
+};
+
+const fnv1a = (value: string, seed: number): number => {
+  let hash = 0x811c9dc5 ^ seed;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Deterministic feature-hashing embeddings with no network access. Texts that
+ * share words score higher than unrelated ones, which is enough for tests and
+ * local development but not for real semantic search.
+ */
+export const localProvider = (dimensions = DEFAULT_LOCAL_DIMENSIONS): EmbeddingProvider => ({
+  name: "local",
+  model: `hash-${dimensions}`,
+  embed: async texts =>
+    texts.map(text => {
+      const vector = new Array<number>(dimensions).fill(0);
+      const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+      for (const token of tokens) {
+        vector[fnv1a(token, 0) % dimensions] += fnv1a(token, 1) & 1 ? 1 : -1;
+      }
+      const norm = Math.hypot(...vector) || 1;
+      return vector.map(value => value / norm);
+    }),
+});
+
+/**
+ * Picks the provider from EMBEDDING_PROVIDER: "workers-ai" (default, needs the AI
+ * binding), "openai" (EMBEDDING_API_URL, EMBEDDING_API_KEY) or "local".
+ */
+export const embeddingProvider = (env: Env): EmbeddingProvider => {
+  const dimensions = env.EMBEDDING_DIMENSIONS ? Number.parseInt(env.EMBEDDING_DIMENSIONS, 10) : undefined;
+  switch (env.EMBEDDING_PROVIDER ?? "workers-ai") {
+    case "workers-ai":
+      if (!env.AI) {
+        throw new Error("The AI binding is not configured; set EMBEDDING_PROVIDER to use another provider.");
+      }
+      return workersAiProvider(env.AI, env.EMBEDDING_MODEL);
+    case "openai":
+      if (!env.EMBEDDING_API_URL) {
+        throw new Error("EMBEDDING_API_URL is required for the openai embedding provider.");
+      }
+      return openAiCompatibleProvider({
+        baseUrl: env.EMBEDDING_API_URL,
+        apiKey: env.EMBEDDING_API_KEY,
+        model: env.EMBEDDING_MODEL,
+        dimensions,
+        fetcher: (url, init) => egressFetch(egressPolicy(env), url, init),
+      });
+    case "local":
+      return localProvider(dimensions);
+    default:
+      throw new Error(`Unknown embedding provider ${env.EMBEDDING_PROVIDER}.`);
+  }
+};
@@ -0,0 +1,119 @@
+import type {
+  VectorizeIndex,
+  VectorizeVectorMetadataFilter,
+  VectorizeVectorMetadataValue,
+} from "@cloudflare/workers-types";
+import { chunkText, type ChunkOptions } from "./chunking";
+import type { EmbeddingProvider } from "./provider";
+import { assertDimensions, assertVectors, vectorizeCall } from "../vectorize/index-info";
+
+const UPSERT_BATCH_SIZE = 100;
+
+export type TextDocument = {
+  id: string;
+  text: string;
+  metadata?: Record<string, unknown>;
+};
+
+export type TextMatch = {
+  id: string;
+  score: number;
+  docId: string;
+  chunk: number;
+  text: string;
+  metadata: Record<string, unknown>;
+};
+
+/** Vector ids are `<docId>#<chunk>` so every chunk of a document can be found again. */
+export const chunkVectorId = (docId: string, chunk: number): string => `${docId}#${chunk}`;
+
+export type TextChunk = {
+  id: string;
+  docId: string;
+  chunk: number;
+  text: string;
+  metadata: Record<string, unknown>;
+};
+
+export const documentChunks = (documents: TextDocument[], options: ChunkOptions = {}): TextChunk[] =>
+  documents.flatMap(document =>
+    chunkText(document.text, options).map((text, chunk) => ({
+      id: chunkVectorId(document.id, chunk),
+      docId: document.id,
+      chunk,
+      text,
+      metadata: { ...document.metadata, docId: document.id, chunk, text },
+    })),
+  );
+
+/**
+ * Embeds and upserts chunks in batches, so a failure part-way leaves earlier
+ * batches stored and `onBatch` can report how far it got.
+ */
+export const upsertChunks = async (
+  index: VectorizeIndex,
+  provider: EmbeddingProvider,
+  chunks: TextChunk[],
+  options: { namespace?: string; onBatch?: (done: number, total: number) => Promise<void> } = {},
+): Promise<void> => {
+  for (let start = 0; start < chunks.length; start += UPSERT_BATCH_SIZE) {
+    const slice = chunks.slice(start, start + UPSERT_BATCH_SIZE);
+    const vectors = await provider.embed(slice.map(entry => entry.text));
+    const batch = slice.map((entry, offset) => ({
+      id: entry.id,
+      values: vectors[offset],
+      namespace: options.namespace,
+      metadata: entry.metadata as Record<string, VectorizeVectorMetadataValue>,
+    }));
+    await assertVectors(index, batch);
+    await vectorizeCall("upsert", () => index.upsert(batch));
+    await options.onBatch?.(start + slice.length, chunks.length);
+  }
+};
+
+/**
+ * Chunks and embeds each document, then upserts one vector per chunk. The chunk
+ * text is stored in metadata under `text` alongside `docId` and `chunk`.
+ */
+export const upsertDocuments = async (
+  index: VectorizeIndex,
+  provider: EmbeddingProvider,
+  documents: TextDocument[],
+  options: ChunkOptions & { namespace?: string } = {},
+): Promise<{ documents: number; chunks: number; ids: string[] }> => {
+  const chunks = documentChunks(documents, options);
+  if (!chunks.length) {
+    throw new Error("Documents did not contain any text to embed.");
+  }
+  await upsertChunks(index, provider, chunks, { namespace: options.namespace });
+  return { documents: documents.length, chunks: chunks.length, ids: chunks.map(entry => entry.id) };
+};
+
+export const queryText = async (
+  index: VectorizeIndex,
+  provider: EmbeddingProvider,
+  text: string,
+  options: { topK?: number; namespace?: string; filter?: VectorizeVectorMetadataFilter } = {},
+): Promise<TextMatch[]> => {
+  const [vector] = await provider.embed([text]);
+  await assertDimensions(index, [{ id: `${provider.name} embedding`, length: vector.length }]);
+  const result = await vectorizeCall("query", () =>
+    index.query(vector, {
+      topK: options.topK ?? 5,
+      namespace: options.namespace,
+      filter: options.filter,
+      returnMetadata: "all",
+    }),
+  );
+  return result.matches.map(match => {
+    const { docId, chunk, text: chunkText, ...metadata } = (match.metadata ?? {}) as Record<string, unknown>;
+    return {
+      id: match.id,
+      score: match.score,
+      docId: typeof docId === "string" ? docId : match.id,
+      chunk: typeof chunk === "number" ? chunk : 0,
+      text: typeof chunkText === "string" ? chunkText : "",
+      metadata,
+    };
+  });
+};
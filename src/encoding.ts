@@ -0,0 +1,23 @@
+const CHUNK_SIZE = 0x8000;
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let offset = 0; offset < bytes.length; offset += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + CHUNK_SIZE));
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (value: string): Uint8Array => {
+  let binary: string;
+  try {
+    binary = atob(value.replace(/-/g, "+").replace(/_/g, "/").replace(/\s+/g, ""));
+  } catch {
+    throw new Error("Value is not valid base64.");
+  }
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+};
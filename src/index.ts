@@ -2,18 +2,44 @@ import { Hono } from "hono";
 import type { Context } from "hono";
 import type { Request as CfRequest } from "@cloudflare/workers-types";
 import { MyMCP } from "./agents/my-mcp";
-import type { Env } from "./types";
+import type { AppBindings } from "./types";
 import { LongTaskDurableObject } from "./durable/long-task";
+import { McpSessionDurableObject } from "./durable/mcp-session";
+import { AtomicKvDurableObject } from "./durable/atomic-kv";
+import { requireAuth } from "./auth";
+import { adminRoutes, oauthRoutes } from "./auth/routes";
+import { ToolPermissionError } from "./auth/policy";
+import { buildOpenApiDocument } from "./openapi";
+import { promptAdminRoutes } from "./prompts/routes";
+import { scheduleRoutes } from "./durable/routes";
+import { SESSION_BINDING } from "./durable/helpers";
+import { migrationRoutes } from "./d1/routes";
 
-const app = new Hono<{ Bindings: Env }>();
+const app = new Hono<AppBindings>();
 
-app.mount("/mcp", MyMCP.serve("/mcp").fetch, { replaceRequest: false });
-app.mount("/sse", MyMCP.serveSSE("/sse").fetch, { replaceRequest: false });
+const mcpHandler = MyMCP.serve("/mcp", { binding: SESSION_BINDING });
+const sseHandler = MyMCP.serveSSE("/sse", { binding: SESSION_BINDING });
+
+app.route("/", oauthRoutes);
+app.route("/admin", adminRoutes);
+app.route("/admin/prompts", promptAdminRoutes);
+app.route("/api/schedules", scheduleRoutes);
+app.route("/api/d1/migrations", migrationRoutes);
+
+app.use("/mcp", requireAuth);
+app.use("/sse", requireAuth);
+app.use("/sse/*", requireAuth);
+app.use("/api/tools", requireAuth);
+app.use("/api/tools/*", requireAuth);
+
+app.all("/mcp", c => mcpHandler.fetch(c.req.raw, c.env, c.executionCtx, c.get("principal")));
+app.all("/sse", c => sseHandler.fetch(c.req.raw, c.env, c.executionCtx, c.get("principal")));
+app.all("/sse/*", c => sseHandler.fetch(c.req.raw, c.env, c.executionCtx, c.get("principal")));
 
 app.get("/api/tools", async c => {
   const agent = MyMCP.shared();
   await agent.ready(c.env, c.executionCtx);
-  const tools = await agent.listTools();
+  const tools = await agent.listTools(c.get("principal"));
   return c.json({ tools });
 });
 
@@ -34,14 +60,18 @@ app.post("/api/tools/:name", async c => {
       c.req.raw,
       c.env,
       c.executionCtx,
+      c.get("principal"),
     );
     return c.json(result);
   } catch (error) {
+    if (error instanceof ToolPermissionError) {
+      return c.json({ error: error.message }, 403);
+    }
     return c.json({ error: error instanceof Error ? error.message : String(error) }, 400);
   }
 });
 
-const proxyAsset = async (c: Context<{ Bindings: Env }>): Promise<Response> => {
+const proxyAsset = async (c: Context<AppBindings>): Promise<Response> => {
   const request = c.req.raw as unknown as CfRequest;
   const response = await c.env.ASSETS.fetch(request);
   const headers = new Headers();
@@ -54,7 +84,12 @@ const proxyAsset = async (c: Context<{ Bindings: Env }>): Promise<Response> => {
   });
 };
 
-app.get("/openapi.json", proxyAsset);
+app.get("/openapi.json", async c => {
+  const agent = MyMCP.shared();
+  await agent.ready(c.env, c.executionCtx);
+  const tools = await agent.listTools();
+  return c.json(buildOpenApiDocument(tools, new URL(c.req.url).origin));
+});
 
 app.get("/", proxyAsset);
 
@@ -66,5 +101,5 @@ app.all("*", async c => {
   return result;
 });
 
-export { LongTaskDurableObject };
+export { AtomicKvDurableObject, LongTaskDurableObject, McpSessionDurableObject };
 export default app;
@@ -0,0 +1,143 @@
+import { sha256Hex } from "../auth/crypto";
+import { extractReadableText } from "../browser/html";
+import { renderPageHtml } from "../browser/render";
+import type { ChunkOptions } from "../embeddings/chunking";
+import { embeddingProvider } from "../embeddings/provider";
+import { documentChunks, upsertChunks, type TextChunk } from "../embeddings/search";
+import { VECTORIZE_LIMITS, vectorizeCall } from "../vectorize/index-info";
+import type { ProgressReporter } from "../agents/mcp";
+import type { Env } from "../types";
+import {
+  chunkVectorIds,
+  deleteIngestedDocument,
+  getIngestedDocument,
+  saveIngestedDocument,
+  type IngestedDocument,
+} from "./store";
+
+export type IngestOptions = ChunkOptions & {
+  url: string;
+  namespace?: string;
+  metadata?: Record<string, unknown>;
+  waitFor?: number;
+  endpoint?: string;
+  force?: boolean;
+};
+
+export type PreparedPage = {
+  url: string;
+  documentId: string;
+  title?: string;
+  contentHash: string;
+  chunks: TextChunk[];
+  existing: IngestedDocument | null;
+};
+
+export type IngestResult = {
+  status: "ingested" | "unchanged";
+  document: IngestedDocument;
+  removedChunks: number;
+};
+
+/** Document ids are derived from the source URL so re-ingesting replaces the same vectors. */
+const documentIdFor = async (url: string): Promise<string> => `url-${(await sha256Hex(url)).slice(0, 32)}`;
+
+/** Renders the page, extracts its text and chunks it, without writing anything. */
+export const preparePage = async (env: Env, options: IngestOptions): Promise<PreparedPage> => {
+  const page = await renderPageHtml(env, options.url, { endpoint: options.endpoint, waitFor: options.waitFor });
+  const { title, text } = extractReadableText(page.html);
+  if (!text) {
+    throw new Error(`No readable text found at ${options.url}.`);
+  }
+  const documentId = await documentIdFor(options.url);
+  return {
+    url: options.url,
+    documentId,
+    title,
+    contentHash: await sha256Hex(text),
+    chunks: documentChunks(
+      [{ id: documentId, text, metadata: { ...options.metadata, source: options.url, ...(title ? { title } : {}) } }],
+      options,
+    ),
+    existing: await getIngestedDocument(env.DB, options.url),
+  };
+};
+
+const deleteVectors = async (env: Env, ids: string[]): Promise<void> => {
+  for (let start = 0; start < ids.length; start += VECTORIZE_LIMITS.deleteByIds) {
+    const batch = ids.slice(start, start + VECTORIZE_LIMITS.deleteByIds);
+    await vectorizeCall("deleteByIds", () => env.VECTORIZE.deleteByIds(batch));
+  }
+};
+
+/** True when the page text, chunking and namespace match what was last ingested. */
+export const isUnchanged = (page: PreparedPage, options: IngestOptions): boolean =>
+  Boolean(
+    page.existing &&
+      !options.force &&
+      page.existing.contentHash === page.contentHash &&
+      page.existing.namespace === (options.namespace ?? null) &&
+      page.existing.chunkCount === page.chunks.length,
+  );
+
+/**
+ * Embeds and upserts a prepared page, removes vectors for chunks the new
+ * version no longer has, and records the document and its chunks in D1.
+ * Unchanged content in the same namespace is skipped unless `force` is set.
+ */
+export const ingestPreparedPage = async (
+  env: Env,
+  page: PreparedPage,
+  options: IngestOptions,
+  progress: ProgressReporter,
+): Promise<IngestResult> => {
+  const namespace = options.namespace ?? null;
+  if (page.existing && isUnchanged(page, options)) {
+    return { status: "unchanged", document: page.existing, removedChunks: 0 };
+  }
+
+  const total = page.chunks.length;
+  await upsertChunks(env.VECTORIZE, embeddingProvider(env), page.chunks, {
+    namespace: options.namespace,
+    onBatch: (done, count) => progress({ progress: done, total: count, message: `Embedded ${done}/${count} chunks` }),
+  });
+
+  const current = new Set(page.chunks.map(chunk => chunk.id));
+  const stale = page.existing
+    ? (await chunkVectorIds(env.DB, page.existing.id)).filter(id => !current.has(id))
+    : [];
+  await deleteVectors(env, stale);
+
+  const now = new Date().toISOString();
+  const document: IngestedDocument = {
+    id: page.documentId,
+    url: page.url,
+    title: page.title ?? null,
+    namespace,
+    contentHash: page.contentHash,
+    chunkCount: total,
+    ingestedAt: page.existing?.ingestedAt ?? now,
+    updatedAt: now,
+  };
+  await saveIngestedDocument(
+    env.DB,
+    document,
+    page.chunks.map(chunk => ({ vectorId: chunk.id, chunk: chunk.chunk, text: chunk.text })),
+  );
+  return { status: "ingested", document, removedChunks: stale.length };
+};
+
+/** Removes every vector and D1 row recorded for a source URL. */
+export const deleteIngestedUrl = async (
+  env: Env,
+  url: string,
+): Promise<{ deleted: boolean; url: string; chunks: number }> => {
+  const existing = await getIngestedDocument(env.DB, url);
+  if (!existing) {
+    return { deleted: false, url, chunks: 0 };
+  }
+  const ids = await chunkVectorIds(env.DB, existing.id);
+  await deleteVectors(env, ids);
+  await deleteIngestedDocument(env.DB, existing.id);
+  return { deleted: true, url, chunks: ids.length };
+};
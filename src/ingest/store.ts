@@ -0,0 +1,135 @@
+import type { D1Database } from "@cloudflare/workers-types";
+
+const DOCUMENT_TABLE = "ingest_documents";
+const CHUNK_TABLE = "ingest_chunks";
+
+export type IngestedDocument = {
+  id: string;
+  url: string;
+  title: string | null;
+  namespace: string | null;
+  contentHash: string;
+  chunkCount: number;
+  ingestedAt: string;
+  updatedAt: string;
+};
+
+export type IngestedChunk = {
+  vectorId: string;
+  chunk: number;
+  text: string;
+};
+
+type DocumentRow = {
+  id: string;
+  url: string;
+  title: string | null;
+  namespace: string | null;
+  content_hash: string;
+  chunk_count: number;
+  ingested_at: string;
+  updated_at: string;
+};
+
+export const ensureIngestTables = async (db: D1Database): Promise<void> => {
+  await db.batch([
+    db.prepare(
+      `CREATE TABLE IF NOT EXISTS ${DOCUMENT_TABLE} (
+        id TEXT PRIMARY KEY,
+        url TEXT NOT NULL UNIQUE,
+        title TEXT,
+        namespace TEXT,
+        content_hash TEXT NOT NULL,
+        chunk_count INTEGER NOT NULL,
+        ingested_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+    ),
+    db.prepare(
+      `CREATE TABLE IF NOT EXISTS ${CHUNK_TABLE} (
+        vector_id TEXT PRIMARY KEY,
+        document_id TEXT NOT NULL REFERENCES ${DOCUMENT_TABLE}(id) ON DELETE CASCADE,
+        chunk INTEGER NOT NULL,
+        text TEXT NOT NULL
+      )`,
+    ),
+    db.prepare(`CREATE INDEX IF NOT EXISTS ${CHUNK_TABLE}_document ON ${CHUNK_TABLE} (document_id, chunk)`),
+  ]);
+};
+
+const fromRow = (row: DocumentRow): IngestedDocument => ({
+  id: row.id,
+  url: row.url,
+  title: row.title,
+  namespace: row.namespace,
+  contentHash: row.content_hash,
+  chunkCount: row.chunk_count,
+  ingestedAt: row.ingested_at,
+  updatedAt: row.updated_at,
+});
+
+export const getIngestedDocument = async (db: D1Database, url: string): Promise<IngestedDocument | null> => {
+  await ensureIngestTables(db);
+  const row = await db.prepare(`SELECT * FROM ${DOCUMENT_TABLE} WHERE url = ?`).bind(url).first<DocumentRow>();
+  return row ? fromRow(row) : null;
+};
+
+export const listIngestedDocuments = async (
+  db: D1Database,
+  options: { limit?: number; offset?: number } = {},
+): Promise<IngestedDocument[]> => {
+  await ensureIngestTables(db);
+  const rows = await db
+    .prepare(`SELECT * FROM ${DOCUMENT_TABLE} ORDER BY updated_at DESC LIMIT ? OFFSET ?`)
+    .bind(options.limit ?? 50, options.offset ?? 0)
+    .all<DocumentRow>();
+  return rows.results.map(fromRow);
+};
+
+export const chunkVectorIds = async (db: D1Database, documentId: string): Promise<string[]> => {
+  const rows = await db
+    .prepare(`SELECT vector_id FROM ${CHUNK_TABLE} WHERE document_id = ? ORDER BY chunk`)
+    .bind(documentId)
+    .all<{ vector_id: string }>();
+  return rows.results.map(row => row.vector_id);
+};
+
+/** Replaces the document row and all of its chunk rows in one batch. */
+export const saveIngestedDocument = async (
+  db: D1Database,
+  document: IngestedDocument,
+  chunks: IngestedChunk[],
+): Promise<void> => {
+  await db.batch([
+    db.prepare(`DELETE FROM ${CHUNK_TABLE} WHERE document_id = ?`).bind(document.id),
+    db
+      .prepare(
+        `INSERT INTO ${DOCUMENT_TABLE} (id, url, title, namespace, content_hash, chunk_count, ingested_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET title = excluded.title, namespace = excluded.namespace,
+           content_hash = excluded.content_hash, chunk_count = excluded.chunk_count, updated_at = excluded.updated_at`,
+      )
+      .bind(
+        document.id,
+        document.url,
+        document.title,
+        document.namespace,
+        document.contentHash,
+        document.chunkCount,
+        document.ingestedAt,
+        document.updatedAt,
+      ),
+    ...chunks.map(chunk =>
+      db
+        .prepare(`INSERT INTO ${CHUNK_TABLE} (vector_id, document_id, chunk, text) VALUES (?, ?, ?, ?)`)
+        .bind(chunk.vectorId, document.id, chunk.chunk, chunk.text),
+    ),
+  ]);
+};
+
+export const deleteIngestedDocument = async (db: D1Database, documentId: string): Promise<void> => {
+  await db.batch([
+    db.prepare(`DELETE FROM ${CHUNK_TABLE} WHERE document_id = ?`).bind(documentId),
+    db.prepare(`DELETE FROM ${DOCUMENT_TABLE} WHERE id = ?`).bind(documentId),
+  ]);
+};
@@ -0,0 +1,173 @@
+import type { ToolAnnotations } from "@modelcontextprotocol/sdk/types";
+
+type ToolDescriptor = {
+  name: string;
+  description: string;
+  schema: Record<string, unknown>;
+  annotations?: ToolAnnotations;
+};
+
+const inputSchema = (schema: Record<string, unknown>): Record<string, unknown> => {
+  const { $schema: _schema, $ref, definitions, ...rest } = schema as {
+    $schema?: string;
+    $ref?: string;
+    definitions?: Record<string, Record<string, unknown>>;
+  } & Record<string, unknown>;
+  if (typeof $ref === "string" && definitions) {
+    const resolved = definitions[$ref.split("/").pop() ?? ""];
+    if (resolved) {
+      return resolved;
+    }
+  }
+  return rest;
+};
+
+const toolOperation = (tool: ToolDescriptor) => ({
+  post: {
+    operationId: tool.name,
+    summary: tool.annotations?.title ?? tool.description,
+    description: tool.description,
+    tags: ["tools"],
+    requestBody: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              arguments: inputSchema(tool.schema),
+            },
+            required: ["arguments"],
+          },
+        },
+      },
+    },
+    responses: {
+      "200": {
+        description: "Tool invocation result",
+        content: {
+          "application/json": {
+            schema: { $ref: "#/components/schemas/ToolResult" },
+          },
+        },
+      },
+      "400": { $ref: "#/components/responses/Error" },
+      "401": { $ref: "#/components/responses/Error" },
+      "403": { $ref: "#/components/responses/Error" },
+    },
+  },
+});
+
+export const buildOpenApiDocument = (tools: ToolDescriptor[], origin: string): Record<string, unknown> => ({
+  openapi: "3.1.0",
+  info: {
+    title: "Cloudflare MCP Worker",
+    version: "1.0.0",
+    description: "REST surface for invoking MCP tools exposed by the Cloudflare Worker.",
+  },
+  servers: [{ url: origin }],
+  security: [{ bearerAuth: [] }, { oauth2: ["mcp"] }],
+  paths: {
+    "/api/tools": {
+      get: {
+        operationId: "listTools",
+        summary: "List available MCP tools",
+        tags: ["tools"],
+        responses: {
+          "200": {
+            description: "Array of tools exposed by the MCP server",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    tools: {
+                      type: "array",
+                      items: { $ref: "#/components/schemas/ToolDefinition" },
+                    },
+                  },
+                  required: ["tools"],
+                },
+              },
+            },
+          },
+          "401": { $ref: "#/components/responses/Error" },
+        },
+      },
+    },
+    ...Object.fromEntries(tools.map(tool => [`/api/tools/${tool.name}`, toolOperation(tool)])),
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: {
+        type: "http",
+        scheme: "bearer",
+        description: "API key issued through the admin API.",
+      },
+      oauth2: {
+        type: "oauth2",
+        flows: {
+          authorizationCode: {
+            authorizationUrl: `${origin}/oauth/authorize`,
+            tokenUrl: `${origin}/oauth/token`,
+            refreshUrl: `${origin}/oauth/token`,
+            scopes: { mcp: "Access the MCP server tools" },
+          },
+        },
+      },
+    },
+    responses: {
+      Error: {
+        description: "Error response",
+        content: {
+          "application/json": {
+            schema: { $ref: "#/components/schemas/Error" },
+          },
+        },
+      },
+    },
+    schemas: {
+      Error: {
+        type: "object",
+        properties: {
+          error: { type: "string" },
+        },
+        required: ["error"],
+      },
+      ToolDefinition: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          description: { type: "string" },
+          schema: { type: "object", additionalProperties: true },
+          annotations: { type: "object", additionalProperties: true },
+        },
+        required: ["name", "description", "schema"],
+      },
+      ToolResult: {
+        type: "object",
+        properties: {
+          content: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                type: { type: "string" },
+                text: { type: "string" },
+                data: { type: "string" },
+                mimeType: { type: "string" },
+              },
+              required: ["type"],
+            },
+          },
+          isError: { type: "boolean" },
+          metadata: {
+            type: "object",
+            additionalProperties: true,
+          },
+        },
+        required: ["content"],
+      },
+    },
+  },
+});
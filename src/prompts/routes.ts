@@ -0,0 +1,41 @@
+import { Hono } from "hono";
+import type { AppBindings } from "../types";
+import { requireAdmin } from "../auth";
+import { deleteStoredPrompt, getStoredPrompt, listStoredPrompts, saveStoredPrompt, storedPromptSchema } from "./store";
+
+export const promptAdminRoutes = new Hono<AppBindings>();
+
+promptAdminRoutes.use("*", requireAdmin);
+
+promptAdminRoutes.get("/", async c => c.json({ prompts: await listStoredPrompts(c.env) }));
+
+promptAdminRoutes.get("/:name", async c => {
+  const prompt = await getStoredPrompt(c.env, c.req.param("name"));
+  if (!prompt) {
+    return c.json({ error: "Not found" }, 404);
+  }
+  return c.json(prompt);
+});
+
+promptAdminRoutes.put("/:name", async c => {
+  let body: Record<string, unknown>;
+  try {
+    body = await c.req.json();
+  } catch (error) {
+    return c.json({ error: `Invalid JSON body: ${error instanceof Error ? error.message : String(error)}` }, 400);
+  }
+
+  const parsed = storedPromptSchema.safeParse({ ...body, name: c.req.param("name") });
+  if (!parsed.success) {
+    return c.json({ error: parsed.error.message }, 400);
+  }
+  return c.json(await saveStoredPrompt(c.env, parsed.data));
+});
+
+promptAdminRoutes.delete("/:name", async c => {
+  const deleted = await deleteStoredPrompt(c.env, c.req.param("name"));
+  if (!deleted) {
+    return c.json({ error: "Not found" }, 404);
+  }
+  return c.body(null, 204);
+});
@@ -0,0 +1,118 @@
+import { z } from "zod";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types";
+import type { Env } from "../types";
+
+const PROMPT_TABLE = "mcp_prompts";
+
+export const storedPromptSchema = z.object({
+  name: z.string().regex(/^[A-Za-z0-9_.-]+$/, "Prompt names may only contain letters, digits, '_', '.' and '-'"),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  arguments: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        description: z.string().optional(),
+        required: z.boolean().optional(),
+      }),
+    )
+    .default([]),
+  messages: z
+    .array(
+      z.object({
+        role: z.enum(["user", "assistant"]),
+        text: z.string(),
+      }),
+    )
+    .min(1),
+});
+
+export type StoredPrompt = z.infer<typeof storedPromptSchema> & { updatedAt?: string };
+
+type PromptRow = {
+  name: string;
+  title: string | null;
+  description: string | null;
+  arguments: string;
+  messages: string;
+  updated_at: string;
+};
+
+const ensurePromptTable = async (env: Env): Promise<void> => {
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS ${PROMPT_TABLE} (
+      name TEXT PRIMARY KEY,
+      title TEXT,
+      description TEXT,
+      arguments TEXT NOT NULL DEFAULT '[]',
+      messages TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )`,
+  ).run();
+};
+
+const fromRow = (row: PromptRow): StoredPrompt => ({
+  name: row.name,
+  title: row.title ?? undefined,
+  description: row.description ?? undefined,
+  arguments: JSON.parse(row.arguments),
+  messages: JSON.parse(row.messages),
+  updatedAt: row.updated_at,
+});
+
+export const listStoredPrompts = async (env: Env): Promise<StoredPrompt[]> => {
+  await ensurePromptTable(env);
+  const rows = await env.DB.prepare(`SELECT * FROM ${PROMPT_TABLE} ORDER BY name`).all<PromptRow>();
+  return rows.results.map(fromRow);
+};
+
+export const getStoredPrompt = async (env: Env, name: string): Promise<StoredPrompt | null> => {
+  await ensurePromptTable(env);
+  const row = await env.DB.prepare(`SELECT * FROM ${PROMPT_TABLE} WHERE name = ?`).bind(name).first<PromptRow>();
+  return row ? fromRow(row) : null;
+};
+
+export const saveStoredPrompt = async (env: Env, prompt: z.infer<typeof storedPromptSchema>): Promise<StoredPrompt> => {
+  await ensurePromptTable(env);
+  const updatedAt = new Date().toISOString();
+  await env.DB.prepare(
+    `INSERT INTO ${PROMPT_TABLE} (name, title, description, arguments, messages, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT(name) DO UPDATE SET
+       title = excluded.title,
+       description = excluded.description,
+       arguments = excluded.arguments,
+       messages = excluded.messages,
+       updated_at = excluded.updated_at`,
+  )
+    .bind(
+      prompt.name,
+      prompt.title ?? null,
+      prompt.description ?? null,
+      JSON.stringify(prompt.arguments),
+      JSON.stringify(prompt.messages),
+      updatedAt,
+    )
+    .run();
+  return { ...prompt, updatedAt };
+};
+
+export const deleteStoredPrompt = async (env: Env, name: string): Promise<boolean> => {
+  await ensurePromptTable(env);
+  const result = await env.DB.prepare(`DELETE FROM ${PROMPT_TABLE} WHERE name = ?`).bind(name).run();
+  return (result.meta?.changes ?? 0) > 0;
+};
+
+export const renderTemplate = (template: string, args: Record<string, string | undefined>): string =>
+  template.replace(/\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g, (_match, key: string) => args[key] ?? "");
+
+export const renderStoredPrompt = (
+  prompt: StoredPrompt,
+  args: Record<string, string | undefined>,
+): GetPromptResult => ({
+  description: prompt.description,
+  messages: prompt.messages.map(message => ({
+    role: message.role,
+    content: { type: "text", text: renderTemplate(message.text, args) },
+  })),
+});
@@ -0,0 +1,233 @@
+import { z } from "zod";
+import type { RemoteToolField } from "../types";
+
+type Literal = string | number | boolean | null;
+
+const literalSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+const validPattern = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern, "u");
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** Validates field definitions in MCP_REMOTE_TOOLS before they are turned into tools. */
+export const remoteToolFieldSchema: z.ZodType<RemoteToolField> = z.lazy(() =>
+  z
+    .object({
+      type: z.enum(["string", "number", "integer", "boolean", "array", "object", "null"]).optional(),
+      description: z.string().optional(),
+      optional: z.boolean().optional(),
+      nullable: z.boolean().optional(),
+      default: z.any().optional(),
+      enum: z.array(literalSchema).min(1).optional(),
+      const: literalSchema.optional(),
+      minLength: z.number().int().min(0).optional(),
+      maxLength: z.number().int().min(0).optional(),
+      pattern: z.string().refine(validPattern, "pattern must be a valid regular expression").optional(),
+      format: z.enum(["email", "uri", "url", "uuid", "date", "date-time", "time", "ipv4", "ipv6"]).optional(),
+      minimum: z.number().optional(),
+      maximum: z.number().optional(),
+      exclusiveMinimum: z.number().optional(),
+      exclusiveMaximum: z.number().optional(),
+      multipleOf: z.number().positive().optional(),
+      items: remoteToolFieldSchema.optional(),
+      minItems: z.number().int().min(0).optional(),
+      maxItems: z.number().int().min(0).optional(),
+      uniqueItems: z.boolean().optional(),
+      properties: z.record(remoteToolFieldSchema).optional(),
+      additionalProperties: z.union([z.boolean(), remoteToolFieldSchema]).optional(),
+      anyOf: z.array(remoteToolFieldSchema).min(1).optional(),
+      oneOf: z.array(remoteToolFieldSchema).min(1).optional(),
+    })
+    .strict(),
+);
+
+const literalUnion = (values: Literal[]): z.ZodTypeAny => {
+  if (values.every((value): value is string => typeof value === "string")) {
+    return z.enum(values as [string, ...string[]]);
+  }
+  const literals = values.map(value => z.literal(value));
+  return literals.length === 1 ? literals[0] : z.union(literals as unknown as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+};
+
+const union = (options: z.ZodTypeAny[]): z.ZodTypeAny =>
+  options.length === 1 ? options[0] : z.union(options as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+
+const stringSchema = (field: RemoteToolField): z.ZodTypeAny => {
+  let schema = z.string();
+  if (field.minLength !== undefined) schema = schema.min(field.minLength);
+  if (field.maxLength !== undefined) schema = schema.max(field.maxLength);
+  if (field.pattern) schema = schema.regex(new RegExp(field.pattern, "u"), `Must match ${field.pattern}`);
+  switch (field.format) {
+    case "email":
+      return schema.email();
+    case "uri":
+    case "url":
+      return schema.url();
+    case "uuid":
+      return schema.uuid();
+    case "date":
+      return schema.date();
+    case "date-time":
+      return schema.datetime({ offset: true });
+    case "time":
+      return schema.time();
+    case "ipv4":
+      return schema.ip({ version: "v4" });
+    case "ipv6":
+      return schema.ip({ version: "v6" });
+    default:
+      return schema;
+  }
+};
+
+const numberSchema = (field: RemoteToolField): z.ZodTypeAny => {
+  let schema = field.type === "integer" ? z.number().int() : z.number();
+  if (field.minimum !== undefined) schema = schema.gte(field.minimum);
+  if (field.maximum !== undefined) schema = schema.lte(field.maximum);
+  if (field.exclusiveMinimum !== undefined) schema = schema.gt(field.exclusiveMinimum);
+  if (field.exclusiveMaximum !== undefined) schema = schema.lt(field.exclusiveMaximum);
+  if (field.multipleOf !== undefined) schema = schema.multipleOf(field.multipleOf);
+  return schema;
+};
+
+const arraySchema = (field: RemoteToolField): z.ZodTypeAny => {
+  let schema = z.array(field.items ? zodFromField(field.items) : z.any());
+  if (field.minItems !== undefined) schema = schema.min(field.minItems);
+  if (field.maxItems !== undefined) schema = schema.max(field.maxItems);
+  if (!field.uniqueItems) return schema;
+  return schema.refine(
+    values => new Set(values.map(value => JSON.stringify(value))).size === values.length,
+    "Array items must be unique",
+  );
+};
+
+const objectSchema = (field: RemoteToolField): z.ZodTypeAny => {
+  const schema = z.object(
+    Object.fromEntries(Object.entries(field.properties ?? {}).map(([key, value]) => [key, propertySchema(value)])),
+  );
+  if (field.additionalProperties === false) return schema.strict();
+  if (field.additionalProperties === true) return schema.passthrough();
+  return field.additionalProperties ? schema.catchall(zodFromField(field.additionalProperties)) : schema;
+};
+
+/** Exactly one option must accept the value; the first that does produces the output. */
+const oneOfSchema = (options: z.ZodTypeAny[]): z.ZodTypeAny =>
+  z.any().transform((value, ctx) => {
+    const results = options.map(option => option.safeParse(value));
+    const matches = results.filter(result => result.success);
+    if (matches.length !== 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Value must match exactly one schema in oneOf; it matched ${matches.length}`,
+      });
+      return z.NEVER;
+    }
+    return (matches[0] as z.SafeParseSuccess<unknown>).data;
+  });
+
+/** The zod schema for a field's value, without its optional/default wrapper. */
+export const zodFromField = (field: RemoteToolField): z.ZodTypeAny => {
+  let schema: z.ZodTypeAny;
+  if (field.const !== undefined) {
+    schema = z.literal(field.const);
+  } else if (field.enum) {
+    schema = literalUnion(field.enum);
+  } else if (field.anyOf) {
+    schema = union(field.anyOf.map(zodFromField));
+  } else if (field.oneOf) {
+    schema = oneOfSchema(field.oneOf.map(zodFromField));
+  } else {
+    switch (field.type) {
+      case "string":
+        schema = stringSchema(field);
+        break;
+      case "number":
+      case "integer":
+        schema = numberSchema(field);
+        break;
+      case "boolean":
+        schema = z.boolean();
+        break;
+      case "null":
+        schema = z.null();
+        break;
+      case "array":
+        schema = arraySchema(field);
+        break;
+      case "object":
+        schema = objectSchema(field);
+        break;
+      default:
+        schema = z.any();
+    }
+  }
+  if (field.description) schema = schema.describe(field.description);
+  return field.nullable ? schema.nullable() : schema;
+};
+
+/** A field as an object property: defaults fill in missing values, optional fields may be omitted. */
+export const propertySchema = (field: RemoteToolField): z.ZodTypeAny => {
+  const schema = zodFromField(field);
+  if (field.default !== undefined) return schema.default(field.default);
+  return field.optional ? schema.optional() : schema;
+};
+
+export const isRequiredField = (field: RemoteToolField): boolean => !field.optional && field.default === undefined;
+
+const withNull = (type: string | undefined, nullable: boolean | undefined): string | string[] | undefined =>
+  type && nullable && type !== "null" ? [type, "null"] : type;
+
+/** JSON Schema (draft 2020-12 subset) advertised in tools/list; mirrors zodFromField. */
+export const jsonSchemaFromField = (field: RemoteToolField): Record<string, unknown> => {
+  const schema: Record<string, unknown> = {};
+  const type = withNull(field.type, field.nullable);
+  if (type) schema.type = type;
+  if (field.description) schema.description = field.description;
+  if (field.default !== undefined) schema.default = field.default;
+  if (field.const !== undefined) schema.const = field.const;
+  if (field.enum) schema.enum = field.nullable && !field.enum.includes(null) ? [...field.enum, null] : field.enum;
+
+  const keywords = [
+    "minLength",
+    "maxLength",
+    "pattern",
+    "format",
+    "minimum",
+    "maximum",
+    "exclusiveMinimum",
+    "exclusiveMaximum",
+    "multipleOf",
+    "minItems",
+    "maxItems",
+    "uniqueItems",
+  ] as const;
+  for (const keyword of keywords) {
+    if (field[keyword] !== undefined) schema[keyword] = field[keyword];
+  }
+
+  if (field.anyOf || field.oneOf) {
+    const key = field.anyOf ? "anyOf" : "oneOf";
+    const options = (field.anyOf ?? field.oneOf ?? []).map(jsonSchemaFromField);
+    schema[key] = field.nullable && !field.type ? [...options, { type: "null" }] : options;
+  }
+  if (field.type === "array") {
+    schema.items = field.items ? jsonSchemaFromField(field.items) : {};
+  }
+  if (field.type === "object") {
+    const properties = Object.entries(field.properties ?? {});
+    schema.properties = Object.fromEntries(properties.map(([key, value]) => [key, jsonSchemaFromField(value)]));
+    schema.required = properties.filter(([, value]) => isRequiredField(value)).map(([key]) => key);
+    if (field.additionalProperties !== undefined) {
+      schema.additionalProperties =
+        typeof field.additionalProperties === "boolean"
+          ? field.additionalProperties
+          : jsonSchemaFromField(field.additionalProperties);
+    }
+  }
+  return schema;
+};
@@ -1,10 +1,12 @@
 import type {
+  Ai,
   D1Database,
   DurableObjectNamespace,
   Fetcher,
   KVNamespace,
   VectorizeIndex,
 } from "@cloudflare/workers-types";
+import type { ToolPolicy } from "./auth/policy";
 
 export interface Env {
   ASSETS: Fetcher;
@@ -13,21 +15,129 @@ export interface Env {
   VECTORIZE: VectorizeIndex;
   BROWSER: Fetcher;
   LONG_TASK: DurableObjectNamespace;
+  MCP_SESSION: DurableObjectNamespace;
+  KV_ATOMIC: DurableObjectNamespace;
   MCP_REMOTE_TOOLS?: string;
+  MCP_ADMIN_TOKEN?: string;
+  MCP_AUTH_DISABLED?: string;
+  D1_READ_ONLY?: string;
+  AI?: Ai;
+  EMBEDDING_PROVIDER?: "workers-ai" | "openai" | "local";
+  EMBEDDING_MODEL?: string;
+  EMBEDDING_API_URL?: string;
+  EMBEDDING_API_KEY?: string;
+  EMBEDDING_DIMENSIONS?: string;
+  EGRESS_ALLOW_HOSTS?: string;
+  EGRESS_DENY_HOSTS?: string;
+  EGRESS_ALLOW_PRIVATE?: string;
+  EGRESS_MAX_RESPONSE_BYTES?: string;
+  EGRESS_TIMEOUT_MS?: string;
 }
 
+export type Principal = {
+  id: string;
+  name?: string;
+  kind: "api_key" | "oauth" | "anonymous";
+  scopes: string[];
+  clientId?: string;
+  policy?: ToolPolicy;
+  d1ReadOnly?: boolean;
+};
+
+export type AppBindings = {
+  Bindings: Env;
+  Variables: {
+    principal: Principal;
+  };
+};
+
+export type RetryPolicy = {
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  backoffMultiplier?: number;
+  jitter?: number;
+};
+
+export type DurableSchedulePayload = {
+  name?: string;
+  operation: string;
+  data?: Record<string, unknown> | null;
+  cron?: string;
+  intervalMs?: number;
+  timeoutMs?: number;
+  retry?: RetryPolicy;
+  principal?: Principal;
+};
+
+export type WorkflowCondition = {
+  ref: string;
+  equals?: unknown;
+  notEquals?: unknown;
+  exists?: boolean;
+};
+
+export type WorkflowStep = {
+  id: string;
+  tool: string;
+  args?: Record<string, unknown>;
+  dependsOn?: string[];
+  when?: WorkflowCondition;
+  timeoutMs?: number;
+  retry?: RetryPolicy;
+  continueOnError?: boolean;
+};
+
+export type WorkflowDefinition = {
+  name?: string;
+  steps: WorkflowStep[];
+};
+
+export type TaskSubscriber = {
+  sessionId: string;
+};
+
 export type DurableTaskPayload = {
   operation: string;
   data?: Record<string, unknown> | null;
-  durationMs?: number;
+  delayMs?: number;
+  timeoutMs?: number;
+  retry?: RetryPolicy;
+  workflow?: WorkflowDefinition;
+  subscriber?: TaskSubscriber;
+  principal?: Principal;
 };
 
+/**
+ * A practical subset of JSON Schema for remote tool arguments. `optional` marks
+ * a property that may be omitted; a `default` also makes it omittable and is
+ * filled in before the request is sent.
+ */
 export type RemoteToolField = {
-  type: "string" | "number" | "boolean" | "array" | "object";
+  type?: "string" | "number" | "integer" | "boolean" | "array" | "object" | "null";
   description?: string;
   optional?: boolean;
+  nullable?: boolean;
+  default?: unknown;
+  enum?: Array<string | number | boolean | null>;
+  const?: string | number | boolean | null;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: "email" | "uri" | "url" | "uuid" | "date" | "date-time" | "time" | "ipv4" | "ipv6";
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
   items?: RemoteToolField;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
   properties?: Record<string, RemoteToolField>;
+  additionalProperties?: boolean | RemoteToolField;
+  anyOf?: RemoteToolField[];
+  oneOf?: RemoteToolField[];
 };
 
 export type RemoteToolConfig = {
@@ -0,0 +1,157 @@
+import type {
+  VectorizeIndex,
+  VectorizeIndexConfig,
+  VectorizeVector,
+} from "@cloudflare/workers-types";
+
+/** Limits documented for Vectorize bindings; checked up front so callers get a readable error. */
+export const VECTORIZE_LIMITS = {
+  idBytes: 64,
+  namespaceBytes: 64,
+  batchVectors: 1000,
+  getByIds: 20,
+  deleteByIds: 1000,
+  topK: 100,
+  topKWithValuesOrMetadata: 20,
+  metadataBytes: 10 * 1024,
+} as const;
+
+export type IndexDescription = {
+  name?: string;
+  dimensions?: number;
+  metric?: string;
+  vectorCount: number;
+  processedUpToMutation?: number;
+};
+
+const describeCache = new WeakMap<VectorizeIndex, Promise<IndexDescription>>();
+
+const byteLength = (value: string): number => new TextEncoder().encode(value).length;
+
+/**
+ * Normalizes describe() across binding versions: V1 returns
+ * `{name, config: {dimensions, metric}, vectorsCount}` and V2 returns
+ * `{dimensions, vectorCount, processedUpToMutation}`.
+ */
+export const describeIndex = async (index: VectorizeIndex): Promise<IndexDescription> => {
+  const raw = (await index.describe()) as unknown as Record<string, unknown>;
+  const config = raw.config as VectorizeIndexConfig | undefined;
+  const fromConfig = config && "dimensions" in config ? config : undefined;
+  const description: IndexDescription = {
+    name: typeof raw.name === "string" ? raw.name : undefined,
+    dimensions: fromConfig?.dimensions ?? (typeof raw.dimensions === "number" ? raw.dimensions : undefined),
+    metric: fromConfig?.metric ?? (config && "preset" in config ? `preset:${config.preset}` : undefined),
+    vectorCount: Number(raw.vectorsCount ?? raw.vectorCount ?? 0),
+    processedUpToMutation: typeof raw.processedUpToMutation === "number" ? raw.processedUpToMutation : undefined,
+  };
+  describeCache.set(index, Promise.resolve(description));
+  return description;
+};
+
+/** Dimensions never change for an index, so one describe() per isolate is enough. */
+const indexDimensions = async (index: VectorizeIndex): Promise<number | undefined> => {
+  let cached = describeCache.get(index);
+  if (!cached) {
+    cached = describeIndex(index);
+    describeCache.set(index, cached);
+    cached.catch(() => describeCache.delete(index));
+  }
+  return (await cached).dimensions;
+};
+
+export const assertNamespace = (namespace: string | undefined): void => {
+  if (namespace !== undefined && (!namespace || byteLength(namespace) > VECTORIZE_LIMITS.namespaceBytes)) {
+    throw new Error(`Namespace must be 1-${VECTORIZE_LIMITS.namespaceBytes} bytes.`);
+  }
+};
+
+export const assertIds = (ids: string[], limit: number, action: string): void => {
+  if (!ids.length) {
+    throw new Error(`Vector IDs are required for ${action}.`);
+  }
+  if (ids.length > limit) {
+    throw new Error(`${action} accepts at most ${limit} IDs per call; received ${ids.length}.`);
+  }
+  const invalid = ids.filter(id => !id || byteLength(id) > VECTORIZE_LIMITS.idBytes);
+  if (invalid.length) {
+    throw new Error(`Vector IDs must be 1-${VECTORIZE_LIMITS.idBytes} bytes: ${invalid.slice(0, 5).join(", ")}`);
+  }
+};
+
+/** Checks every vector against the index dimensions and the binding limits before any write. */
+export const assertVectors = async (index: VectorizeIndex, vectors: VectorizeVector[]): Promise<void> => {
+  if (!vectors.length) {
+    throw new Error("At least one vector is required.");
+  }
+  if (vectors.length > VECTORIZE_LIMITS.batchVectors) {
+    throw new Error(`At most ${VECTORIZE_LIMITS.batchVectors} vectors can be written per call; received ${vectors.length}.`);
+  }
+  assertIds(
+    vectors.map(vector => vector.id),
+    VECTORIZE_LIMITS.batchVectors,
+    "write",
+  );
+  const duplicates = vectors.map(vector => vector.id).filter((id, position, all) => all.indexOf(id) !== position);
+  if (duplicates.length) {
+    throw new Error(`Vector IDs must be unique within a call: ${[...new Set(duplicates)].slice(0, 5).join(", ")}`);
+  }
+  for (const vector of vectors) {
+    assertNamespace(vector.namespace);
+    if (vector.metadata && byteLength(JSON.stringify(vector.metadata)) > VECTORIZE_LIMITS.metadataBytes) {
+      throw new Error(`Metadata for vector ${vector.id} exceeds ${VECTORIZE_LIMITS.metadataBytes} bytes.`);
+    }
+  }
+  await assertDimensions(
+    index,
+    vectors.map(vector => ({ id: vector.id, length: vector.values.length })),
+  );
+};
+
+export const assertDimensions = async (
+  index: VectorizeIndex,
+  vectors: Array<{ id: string; length: number }>,
+): Promise<void> => {
+  const dimensions = await indexDimensions(index);
+  if (dimensions === undefined) {
+    return;
+  }
+  const mismatched = vectors.filter(vector => vector.length !== dimensions);
+  if (mismatched.length) {
+    const sample = mismatched
+      .slice(0, 5)
+      .map(vector => `${vector.id} (${vector.length})`)
+      .join(", ");
+    throw new Error(`The index expects ${dimensions}-dimensional vectors; got ${sample}.`);
+  }
+};
+
+export const assertTopK = (topK: number, options: { returnValues?: boolean; returnMetadata?: string | boolean }): void => {
+  const heavy = options.returnValues || options.returnMetadata === "all" || options.returnMetadata === true;
+  const limit = heavy ? VECTORIZE_LIMITS.topKWithValuesOrMetadata : VECTORIZE_LIMITS.topK;
+  if (topK > limit) {
+    throw new Error(
+      `topK may be at most ${limit}${heavy ? " when returnValues is set or returnMetadata is \"all\"" : ""}; received ${topK}.`,
+    );
+  }
+};
+
+/** Names the operation that failed so binding errors are not surfaced bare. */
+export const vectorizeCall = async <T>(operation: string, call: () => Promise<T>): Promise<T> => {
+  try {
+    return await call();
+  } catch (error) {
+    throw new Error(`Vectorize ${operation} failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+/** IDs from the list that already exist in the index, looked up in getByIds-sized batches. */
+export const existingIds = async (index: VectorizeIndex, ids: string[]): Promise<string[]> => {
+  const found: string[] = [];
+  for (let start = 0; start < ids.length; start += VECTORIZE_LIMITS.getByIds) {
+    const vectors = await vectorizeCall("getByIds", () =>
+      index.getByIds(ids.slice(start, start + VECTORIZE_LIMITS.getByIds)),
+    );
+    found.push(...vectors.map(vector => vector.id));
+  }
+  return found;
+};